@@ -1,146 +1,114 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import { Provider } from 'react-redux';
-import { BrowserRouter as Router } from 'react-router-dom';
+import { BrowserRouter as Router, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { store } from './store';
-import Navbar from './components/Layout/Navbar';
-import Footer from './components/Layout/Footer';
-import Hero from './components/HomePage/Hero';
-import FeaturedProducts from './components/HomePage/FeaturedProducts';
-import SpecialDeals from './components/HomePage/SpecialDeals';
-import ProductGrid from './components/Products/ProductGrid';
+import { setUser, logout } from './store/slices/authSlice';
+import { authService } from './services/apiService';
+import { LegacyAccounts, SessionManager } from './lib/auth';
+import { paths, type ModalLocationState } from './utils/paths';
+import { useGuestHistorySync } from './hooks/useGuestHistorySync';
+import StorefrontLayout from './components/Layout/StorefrontLayout';
+import NotFound from './components/Layout/NotFound';
+import HomePage from './components/HomePage/HomePage';
 import ProductsPage from './components/Products/ProductsPage';
+import ProductRoute, { ProductModalRoute } from './components/Products/ProductRoute';
+import CategoryRoute from './components/Products/CategoryRoute';
+import CartRoute from './components/Cart/CartRoute';
+import CheckoutRoute from './components/Checkout/CheckoutRoute';
 import WishlistPage from './components/User/WishlistPage';
 import AccountPage from './components/User/AccountPage';
 import OrdersPage from './components/User/OrdersPage';
 import HistoryPage from './components/User/HistoryPage';
-import CheckoutForm from './components/Checkout/CheckoutForm';
-import OneRupeeDeals from './components/Deals/OneRupeeDeals';
 import MyOrders from './components/Orders/MyOrders';
-import Testimonials from './components/HomePage/Testimonials';
-import Newsletter from './components/HomePage/Newsletter';
-import CartSidebar from './components/Cart/CartSidebar';
-import WhatsAppChat from './components/UI/WhatsAppChat';
-import PaymentDiagnosticsPanel from './components/UI/PaymentDiagnosticsPanel';
-import StreamlinedCheckout from './components/Checkout/StreamlinedCheckout';
+import DealsPage from './components/Deals/DealsPage';
+import ResetPasswordForm from './components/Auth/ResetPasswordForm';
 
-function App() {
-  const [currentPage, setCurrentPage] = useState('home');
-  const [showCheckout, setShowCheckout] = useState(false);
-  const [showStreamlinedCheckout, setShowStreamlinedCheckout] = useState(false);
-  const [checkoutProduct, setCheckoutProduct] = useState<any>(null);
+function StorefrontRoutes() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  // A product opened from a grid keeps that page rendered underneath its modal
+  const background = (location.state as ModalLocationState | null)?.backgroundLocation;
+  const pagePath = (background ?? location).pathname;
+  useGuestHistorySync();
+
+  // New pages start at the top; opening or closing a modal leaves the page where it was
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [pagePath]);
+
+  return (
+    <>
+      <Routes location={background ?? location}>
+        <Route
+          path="/checkout"
+          element={
+            <div className="min-h-screen bg-white font-inter">
+              <CheckoutRoute />
+            </div>
+          }
+        />
+        <Route element={<StorefrontLayout />}>
+          <Route index element={<HomePage />} />
+          <Route path="products" element={<ProductsPage />} />
+          <Route path="products/:slug" element={<ProductRoute />} />
+          <Route path="category/:slug" element={<CategoryRoute />} />
+          <Route path="cart" element={<CartRoute />} />
+          <Route path="deals" element={<DealsPage />} />
+          <Route path="account" element={<AccountPage />} />
+          <Route path="account/orders" element={<OrdersPage />} />
+          <Route path="account/wishlist" element={<WishlistPage />} />
+          <Route path="account/history" element={<HistoryPage />} />
+          <Route path="orders/:id" element={<MyOrders />} />
+          {/* Emailed password reset links land on /reset-password?token=... */}
+          <Route
+            path="reset-password"
+            element={
+              <div className="min-h-screen bg-gray-50 pt-20 flex items-center justify-center px-4">
+                <ResetPasswordForm
+                  onComplete={() => {
+                    store.dispatch(logout());
+                    navigate(paths.home, { replace: true });
+                  }}
+                />
+              </div>
+            }
+          />
+          <Route path="*" element={<NotFound />} />
+        </Route>
+      </Routes>
+      {background && (
+        <Routes>
+          <Route path="/products/:slug" element={<ProductModalRoute />} />
+        </Routes>
+      )}
+    </>
+  );
+}
 
+function App() {
   useEffect(() => {
     // Smooth scroll behavior
     document.documentElement.style.scrollBehavior = 'smooth';
   }, []);
 
-  const handleNavigate = (page: string) => {
-    setCurrentPage(page);
-    window.scrollTo(0, 0);
-  };
-
-  // Listen for checkout navigation
+  // Restore the signed-in user from the server session cookie
   useEffect(() => {
-    const handleCheckoutNavigation = () => {
-      setShowCheckout(true);
-    };
-
-    const handleOrdersNavigation = () => {
-      setCurrentPage('orders');
-    };
-
-    const handleStreamlinedCheckoutNavigation = (event: any) => {
-      setCheckoutProduct(event.detail.product);
-      setShowStreamlinedCheckout(true);
-    };
-    window.addEventListener('navigate-to-checkout', handleCheckoutNavigation);
-    window.addEventListener('navigate-to-orders', handleOrdersNavigation);
-    window.addEventListener('navigate-to-streamlined-checkout', handleStreamlinedCheckoutNavigation);
-
-    return () => {
-      window.removeEventListener('navigate-to-checkout', handleCheckoutNavigation);
-      window.removeEventListener('navigate-to-orders', handleOrdersNavigation);
-      window.removeEventListener('navigate-to-streamlined-checkout', handleStreamlinedCheckoutNavigation);
-    };
+    LegacyAccounts.migrate();
+    authService.getSession()
+      .then(({ user, session }) => {
+        SessionManager.setSession(session);
+        store.dispatch(setUser(user));
+      })
+      .catch(() => SessionManager.clear());
   }, []);
 
-  if (showCheckout) {
-    return (
-      <Provider store={store}>
-        <Router>
-          <div className="min-h-screen bg-white font-inter">
-            <CheckoutForm onBack={() => setShowCheckout(false)} />
-          </div>
-        </Router>
-      </Provider>
-    );
-  }
-
-  if (showStreamlinedCheckout) {
-    return (
-      <Provider store={store}>
-        <Router>
-          <div className="min-h-screen bg-white font-inter">
-            <StreamlinedCheckout 
-              product={checkoutProduct}
-              onBack={() => {
-                setShowStreamlinedCheckout(false);
-                setCheckoutProduct(null);
-              }}
-              onComplete={() => {
-                setShowStreamlinedCheckout(false);
-                setCheckoutProduct(null);
-                setCurrentPage('orders');
-              }}
-            />
-          </div>
-        </Router>
-      </Provider>
-    );
-  }
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'products':
-        return <ProductsPage />;
-      case 'wishlist':
-        return <WishlistPage />;
-      case 'account':
-        return <AccountPage />;
-      case 'history':
-        return <HistoryPage />;
-      case 'orders':
-        return <OrdersPage />;
-      case 'my-orders':
-        return <MyOrders />;
-      default:
-        return (
-          <main>
-            <Hero onNavigate={handleNavigate} />
-            <SpecialDeals />
-            <FeaturedProducts onNavigate={handleNavigate} />
-            <ProductGrid />
-            <OneRupeeDeals />
-            <Testimonials />
-            <Newsletter />
-          </main>
-        );
-    }
-  };
-
   return (
     <Provider store={store}>
       <Router>
-        <div className="min-h-screen bg-white font-inter">
-          <Navbar onNavigate={handleNavigate} />
-          {renderPage()}
-          {currentPage === 'home' && <Footer />}
-          <CartSidebar />
-          <WhatsAppChat />
-          <PaymentDiagnosticsPanel />
-        </div>
+        <StorefrontRoutes />
       </Router>
     </Provider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
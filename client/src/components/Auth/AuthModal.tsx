@@ -3,7 +3,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, User, Mail, Lock, Eye, EyeOff } from 'lucide-react';
 import { useDispatch } from 'react-redux';
 import { setUser } from '../../store/slices/authSlice';
-import { MockAuthService } from '../../utils/mockAuth';
+import { authService } from '../../services/apiService';
+import { LegacyAccounts, SessionManager } from '../../lib/auth';
+import PhoneOtpForm from './PhoneOtpForm';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -21,31 +23,38 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [isLegacyAccount, setIsLegacyAccount] = useState(false);
+  const [usePhoneOtp, setUsePhoneOtp] = useState(false);
   const dispatch = useDispatch();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError('');
+    setIsLegacyAccount(false);
 
     try {
-      let user;
-      if (isLogin) {
-        user = await MockAuthService.signIn(formData.email, formData.password);
-      } else {
-        user = await MockAuthService.signUp({
-          email: formData.email,
-          password: formData.password,
-          fullName: formData.fullName,
-          phone: formData.phone
-        });
-      }
+      const { user, session } = isLogin
+        ? await authService.login(formData.email, formData.password)
+        : await authService.register({
+            email: formData.email,
+            password: formData.password,
+            fullName: formData.fullName,
+            phone: formData.phone
+          });
       
+      SessionManager.setSession(session);
+      LegacyAccounts.forget(formData.email);
       dispatch(setUser(user));
       onClose();
       setFormData({ email: '', password: '', fullName: '', phone: '' });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Authentication failed');
+      if (isLogin && LegacyAccounts.has(formData.email)) {
+        setIsLegacyAccount(true);
+        setError(LegacyAccounts.MESSAGE);
+      } else {
+        setError(err instanceof Error ? err.message : 'Authentication failed');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -57,6 +66,7 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
       [e.target.name]: e.target.value
     }));
     setError('');
+    setIsLegacyAccount(false);
   };
 
   return (
@@ -102,119 +112,164 @@ const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
                 </p>
               </div>
 
-              <form onSubmit={handleSubmit} className="space-y-4">
-                {!isLogin && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Full Name
-                    </label>
-                    <div className="relative">
-                      <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                      <input
-                        type="text"
-                        name="fullName"
-                        value={formData.fullName}
-                        onChange={handleInputChange}
-                        className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                        placeholder="Enter your full name"
-                        required={!isLogin}
-                      />
+              {usePhoneOtp ? (
+                <PhoneOtpForm
+                  onSuccess={(user) => {
+                    dispatch(setUser(user));
+                    setUsePhoneOtp(false);
+                    onClose();
+                  }}
+                  onBack={() => setUsePhoneOtp(false)}
+                />
+              ) : (
+                <>
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    {!isLogin && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Full Name
+                        </label>
+                        <div className="relative">
+                          <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                          <input
+                            type="text"
+                            name="fullName"
+                            value={formData.fullName}
+                            onChange={handleInputChange}
+                            className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                            placeholder="Enter your full name"
+                            required={!isLogin}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Email Address
+                      </label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                        <input
+                          type="email"
+                          name="email"
+                          value={formData.email}
+                          onChange={handleInputChange}
+                          className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                          placeholder="Enter your email"
+                          required
+                        />
+                      </div>
                     </div>
-                  </div>
-                )}
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Email Address
-                  </label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                    <input
-                      type="email"
-                      name="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                      placeholder="Enter your email"
-                      required
-                    />
-                  </div>
-                </div>
-
-                {!isLogin && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Phone Number
-                    </label>
-                    <input
-                      type="tel"
-                      name="phone"
-                      value={formData.phone}
-                      onChange={handleInputChange}
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                      placeholder="Enter your phone number"
-                    />
-                  </div>
-                )}
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Password
-                  </label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                    <input
-                      type={showPassword ? "text" : "password"}
-                      name="password"
-                      value={formData.password}
-                      onChange={handleInputChange}
-                      className="w-full pl-12 pr-12 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
-                      placeholder="Enter your password"
-                      required
-                    />
+
+                    {!isLogin && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Phone Number
+                        </label>
+                        <input
+                          type="tel"
+                          name="phone"
+                          value={formData.phone}
+                          onChange={handleInputChange}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                          placeholder="Enter your phone number"
+                        />
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Password
+                      </label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                        <input
+                          type={showPassword ? "text" : "password"}
+                          name="password"
+                          value={formData.password}
+                          onChange={handleInputChange}
+                          className="w-full pl-12 pr-12 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                          placeholder="Enter your password"
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        >
+                          {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                        </button>
+                      </div>
+                    </div>
+
+                    {error && !isLegacyAccount && (
+                      <div className="text-red-600 text-sm text-center p-2 bg-red-50 rounded-lg">
+                        {error}
+                      </div>
+                    )}
+
+                    {error && isLegacyAccount && (
+                      <div className="text-amber-800 text-sm text-center p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                        <p>{error}</p>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setIsLogin(false);
+                            setError('');
+                            setIsLegacyAccount(false);
+                            setFormData(prev => ({ ...prev, password: '' }));
+                          }}
+                          className="mt-2 text-amber-700 hover:text-amber-800 font-medium underline"
+                        >
+                          Create my account again
+                        </button>
+                      </div>
+                    )}
+
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      type="submit"
+                      disabled={isLoading}
+                      className="w-full bg-yellow-600 text-white py-3 rounded-lg font-medium hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? 'Please wait...' : (isLogin ? 'Sign In' : 'Create Account')}
+                    </motion.button>
+                  </form>
+
+                  {isLogin && (
                     <button
                       type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      onClick={() => {
+                        setUsePhoneOtp(true);
+                        setError('');
+                      }}
+                      className="mt-4 w-full border border-yellow-600 text-yellow-700 py-3 rounded-lg font-medium hover:bg-yellow-50 transition-colors"
                     >
-                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                      Sign in with mobile OTP
                     </button>
-                  </div>
-                </div>
+                  )}
 
-                {error && (
-                  <div className="text-red-600 text-sm text-center p-2 bg-red-50 rounded-lg">
-                    {error}
+                  <div className="mt-6 text-center">
+                    <p className="text-gray-600">
+                      {isLogin ? "Don't have an account?" : "Already have an account?"}
+                      {' '}
+                      <button
+                        onClick={() => {
+                          setIsLogin(!isLogin);
+                          setError('');
+                          setIsLegacyAccount(false);
+                          setFormData({ email: '', password: '', fullName: '', phone: '' });
+                        }}
+                        className="text-yellow-600 hover:text-yellow-700 font-medium"
+                      >
+                        {isLogin ? 'Sign Up' : 'Sign In'}
+                      </button>
+                    </p>
                   </div>
-                )}
-
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  type="submit"
-                  disabled={isLoading}
-                  className="w-full bg-yellow-600 text-white py-3 rounded-lg font-medium hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? 'Please wait...' : (isLogin ? 'Sign In' : 'Create Account')}
-                </motion.button>
-              </form>
-
-              <div className="mt-6 text-center">
-                <p className="text-gray-600">
-                  {isLogin ? "Don't have an account?" : "Already have an account?"}
-                  {' '}
-                  <button
-                    onClick={() => {
-                      setIsLogin(!isLogin);
-                      setError('');
-                      setFormData({ email: '', password: '', fullName: '', phone: '' });
-                    }}
-                    className="text-yellow-600 hover:text-yellow-700 font-medium"
-                  >
-                    {isLogin ? 'Sign Up' : 'Sign In'}
-                  </button>
-                </p>
-              </div>
+                </>
+              )}
             </motion.div>
           </motion.div>
         </>
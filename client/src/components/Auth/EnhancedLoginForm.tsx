@@ -31,6 +31,7 @@ const EnhancedLoginForm: React.FC<EnhancedLoginFormProps> = ({
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isLegacyAccount, setIsLegacyAccount] = useState(false);
 
   const {
     register,
@@ -44,12 +45,14 @@ const EnhancedLoginForm: React.FC<EnhancedLoginFormProps> = ({
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
     setError(null);
+    setIsLegacyAccount(false);
 
     try {
       const result = await AuthService.signIn(data.email, data.password, data.rememberMe);
 
       if (result.error) {
         setError(result.error.message);
+        setIsLegacyAccount(result.error.code === 'legacy_account');
         return;
       }
 
@@ -80,8 +83,38 @@ const EnhancedLoginForm: React.FC<EnhancedLoginFormProps> = ({
         <p className="text-gray-600">Sign in to your account</p>
       </div>
 
+      {/* Legacy Account Prompt */}
+      {error && isLegacyAccount && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl"
+        >
+          <div className="flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0" />
+            <p className="text-amber-800 text-sm font-medium">{error}</p>
+          </div>
+          <div className="mt-3 flex space-x-2">
+            <button
+              type="button"
+              onClick={onSwitchToRegister}
+              className="px-3 py-1 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Create account
+            </button>
+            <button
+              type="button"
+              onClick={onSwitchToForgotPassword}
+              className="px-3 py-1 bg-white border border-amber-300 text-amber-800 rounded-lg text-sm font-medium transition-colors"
+            >
+              Reset password
+            </button>
+          </div>
+        </motion.div>
+      )}
+
       {/* Error Display */}
-      {error && (
+      {error && !isLegacyAccount && (
         <motion.div
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -219,18 +252,6 @@ const EnhancedLoginForm: React.FC<EnhancedLoginFormProps> = ({
           </button>
         </p>
       </div>
-
-      {/* Test Credentials Notice */}
-      {process.env.NODE_ENV === 'development' && (
-        <div className="mt-6 p-4 bg-blue-50 rounded-xl">
-          <h4 className="font-medium text-blue-900 mb-2">Test Credentials</h4>
-          <div className="text-sm text-blue-800 space-y-1">
-            <p>• Email: test@example.com</p>
-            <p>• Password: password123</p>
-            <p>• Or create a new account</p>
-          </div>
-        </div>
-      )}
     </motion.div>
   );
 };
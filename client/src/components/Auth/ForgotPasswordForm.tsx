@@ -4,6 +4,7 @@ import { Mail, ArrowLeft, CheckCircle } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { AuthService } from '../../lib/auth';
 
 const forgotPasswordSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -18,6 +19,7 @@ interface ForgotPasswordFormProps {
 
 const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onClose, onSwitchToLogin }) => {
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const {
     register,
@@ -28,9 +30,13 @@ const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onClose, onSwit
   });
 
   const onSubmit = async (data: ForgotPasswordData) => {
+    setError(null);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const result = await AuthService.resetPassword(data.email);
+      if (result.error) {
+        setError(result.error.message);
+        return;
+      }
       setIsSubmitted(true);
     } catch (error) {
       console.error('Password reset failed:', error);
@@ -50,7 +56,7 @@ const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onClose, onSwit
         </div>
         <h2 className="text-2xl font-bold text-gray-900 mb-4">Check Your Email</h2>
         <p className="text-gray-600 mb-8">
-          We've sent a password reset link to your email address. Please check your inbox and follow the instructions.
+          If an account exists for that email, we've sent a password reset link. Please check your inbox and follow the instructions.
         </p>
         <motion.button
           whileHover={{ scale: 1.02 }}
@@ -95,6 +101,10 @@ const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onClose, onSwit
           )}
         </div>
 
+        {error && (
+          <p className="text-sm text-red-600 text-center">{error}</p>
+        )}
+
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
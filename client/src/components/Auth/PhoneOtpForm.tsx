@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Phone, KeyRound, ArrowLeft } from 'lucide-react';
+import type { User } from '@shared/schema';
+import { authService } from '../../services/apiService';
+import { SessionManager } from '../../lib/auth';
+
+const RESEND_SECONDS = 60;
+
+interface PhoneOtpFormProps {
+  onSuccess: (user: User) => void;
+  onBack: () => void;
+}
+
+/**
+ * Phone OTP Form
+ * Signs in (or signs up) with an Indian mobile number and a one-time SMS code
+ */
+const PhoneOtpForm: React.FC<PhoneOtpFormProps> = ({ onSuccess, onBack }) => {
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'phone' | 'code'>('phone');
+  const [resendIn, setResendIn] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleRequestCode = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      await authService.requestOtp(phone);
+      setStep('code');
+      setCode('');
+      setResendIn(RESEND_SECONDS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const { user, session } = await authService.verifyOtp(phone, code);
+      SessionManager.setSession(session);
+      onSuccess(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step === 'phone') {
+      handleRequestCode();
+    } else {
+      handleVerifyCode();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {step === 'phone' ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Mobile Number
+          </label>
+          <div className="relative">
+            <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <span className="absolute left-10 top-1/2 transform -translate-y-1/2 text-gray-500">+91</span>
+            <input
+              type="tel"
+              inputMode="numeric"
+              autoComplete="tel-national"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              className="w-full pl-20 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+              placeholder="10-digit mobile number"
+              required
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Enter the 6-digit code sent to +91 {phone.replace(/\D/g, '').slice(-10)}
+          </label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+              placeholder="------"
+              required
+            />
+          </div>
+          <div className="mt-2 flex justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => setStep('phone')}
+              className="text-gray-600 hover:text-gray-800"
+            >
+              Change number
+            </button>
+            <button
+              type="button"
+              onClick={handleRequestCode}
+              disabled={resendIn > 0 || isLoading}
+              className="text-yellow-600 hover:text-yellow-700 font-medium disabled:text-gray-400"
+            >
+              {resendIn > 0 ? `Resend in ${resendIn}s` : 'Resend code'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-red-600 text-sm text-center p-2 bg-red-50 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <motion.button
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        type="submit"
+        disabled={isLoading || (step === 'code' && code.length !== 6)}
+        className="w-full bg-yellow-600 text-white py-3 rounded-lg font-medium hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Please wait...' : (step === 'phone' ? 'Send Code' : 'Verify & Sign In')}
+      </motion.button>
+
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-full flex items-center justify-center space-x-2 text-gray-600 hover:text-gray-800 text-sm"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Use email and password instead</span>
+      </button>
+    </form>
+  );
+};
+
+export default PhoneOtpForm;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Eye, EyeOff, CheckCircle, AlertCircle } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useSearchParams } from 'react-router-dom';
+import { AuthService } from '../../lib/auth';
+
+const resetPasswordSchema = z.object({
+  password: z.string()
+    .min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordFormProps {
+  onComplete: () => void;
+}
+
+/**
+ * Reset Password Form
+ * Reads the single-use token from the `?token=` query string of the emailed link
+ */
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ onComplete }) => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordData) => {
+    if (!token) return;
+
+    setError(null);
+    const result = await AuthService.confirmPasswordReset(token, data.password);
+    if (result.error) {
+      setError(result.error.message);
+      return;
+    }
+    setIsComplete(true);
+  };
+
+  if (!token || isComplete) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl p-8 w-full max-w-md text-center shadow-2xl"
+      >
+        <div className={`w-16 h-16 ${isComplete ? 'bg-green-100' : 'bg-red-100'} rounded-full flex items-center justify-center mx-auto mb-6`}>
+          {isComplete ? (
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          ) : (
+            <AlertCircle className="w-8 h-8 text-red-600" />
+          )}
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">
+          {isComplete ? 'Password Updated' : 'Invalid Reset Link'}
+        </h2>
+        <p className="text-gray-600 mb-8">
+          {isComplete
+            ? 'Your password has been changed and you have been signed out of all devices. Please sign in with your new password.'
+            : 'This password reset link is missing its token. Please request a new link.'}
+        </p>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={onComplete}
+          className="w-full bg-yellow-600 hover:bg-yellow-700 text-white py-3 rounded-xl font-semibold transition-colors"
+        >
+          Continue Shopping
+        </motion.button>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="bg-white rounded-2xl p-8 w-full max-w-md shadow-2xl"
+    >
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Choose a New Password</h2>
+        <p className="text-gray-600">Enter a new password for your account</p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            New Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              {...register('password')}
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              className="w-full pl-12 pr-12 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+              placeholder="Enter a new password"
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+          </div>
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Confirm Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <input
+              {...register('confirmPassword')}
+              type={showPassword ? 'text' : 'password'}
+              autoComplete="new-password"
+              className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+              placeholder="Re-enter the new password"
+            />
+          </div>
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 text-center">{error}</p>
+        )}
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-yellow-600 hover:bg-yellow-700 text-white py-3 rounded-xl font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+        >
+          {isSubmitting ? (
+            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <span>Update Password</span>
+          )}
+        </motion.button>
+      </form>
+    </motion.div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -11,4 +11,6 @@ export { default as AuthModal } from './AuthModal';
 export { default as SupabaseAuthModal } from './SupabaseAuthModal';
 export { default as LoginForm } from './LoginForm';
 export { default as RegisterForm } from './RegisterForm';
-export { default as ForgotPasswordForm } from './ForgotPasswordForm';
\ No newline at end of file
+export { default as ForgotPasswordForm } from './ForgotPasswordForm';
+export { default as ResetPasswordForm } from './ResetPasswordForm';
+export { default as PhoneOtpForm } from './PhoneOtpForm';
\ No newline at end of file
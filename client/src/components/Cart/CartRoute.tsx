@@ -0,0 +1,37 @@
+import React, { useEffect, useRef } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { RootState } from '../../store';
+import { setCartOpen } from '../../store/slices/cartSlice';
+import { paths } from '../../utils/paths';
+import ProductsPage from '../Products/ProductsPage';
+
+/**
+ * /cart opens the cart drawer over the catalog. Closing the drawer moves on
+ * to /products, so the URL never claims the cart is showing when it isn't.
+ */
+const CartRoute: React.FC = () => {
+  const dispatch = useDispatch();
+  const navigate = useNavigate();
+  const isOpen = useSelector((state: RootState) => state.cart.isOpen);
+  const wasOpen = useRef(false);
+
+  useEffect(() => {
+    dispatch(setCartOpen(true));
+    return () => {
+      dispatch(setCartOpen(false));
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (isOpen) {
+      wasOpen.current = true;
+    } else if (wasOpen.current) {
+      navigate(paths.products, { replace: true });
+    }
+  }, [isOpen, navigate]);
+
+  return <ProductsPage />;
+};
+
+export default CartRoute;
@@ -1,12 +1,16 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 import { X, Plus, Minus, ShoppingBag, Trash2, ArrowRight } from 'lucide-react';
 import { RootState } from '../../store';
-import { removeFromCart, updateQuantity, clearCart, toggleCart } from '../../store/slices/cartSlice';
+import { removeFromCart, updateQuantity, clearCart, toggleCart, cartItemPrice } from '../../store/slices/cartSlice';
+import { formatVariantOptions } from '../../utils/variant';
+import { paths } from '../../utils/paths';
 
 const CartSidebar: React.FC = () => {
   const dispatch = useDispatch();
+  const navigate = useNavigate();
   const { items, total, isOpen } = useSelector((state: RootState) => state.cart);
 
   const handleUpdateQuantity = (id: string, quantity: number) => {
@@ -26,9 +30,8 @@ const CartSidebar: React.FC = () => {
   };
 
   const handleCheckout = () => {
+    navigate(paths.checkout);
     dispatch(toggleCart());
-    // Navigate to checkout - this will be handled by parent component
-    window.dispatchEvent(new CustomEvent('navigate-to-checkout'));
   };
 
   const cartItemCount = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -99,13 +102,16 @@ const CartSidebar: React.FC = () => {
                       className="flex items-center space-x-4 p-4 bg-gray-50 rounded-xl"
                     >
                       <img
-                        src={item.product.images[0]}
+                        src={item.variant?.images?.[0] ?? item.product.images[0]}
                         alt={item.product.name}
                         className="w-16 h-16 object-cover rounded-lg"
                       />
                       <div className="flex-1">
                         <h4 className="font-semibold text-gray-900 mb-1">{item.product.name}</h4>
-                        <p className="text-yellow-600 font-bold">₹{item.product.price.toLocaleString('en-IN')}</p>
+                        {item.variant && (
+                          <p className="text-sm text-gray-600 mb-1">{formatVariantOptions(item.variant.options)}</p>
+                        )}
+                        <p className="text-yellow-600 font-bold">₹{cartItemPrice(item).toLocaleString('en-IN')}</p>
                         
                         {/* Quantity Controls */}
                         <div className="flex items-center space-x-2 mt-2">
@@ -129,7 +135,7 @@ const CartSidebar: React.FC = () => {
                       
                       <div className="text-right">
                         <p className="font-bold text-gray-900">
-                          ₹{(item.product.price * item.quantity).toLocaleString('en-IN')}
+                          ₹{(cartItemPrice(item) * item.quantity).toLocaleString('en-IN')}
                         </p>
                         <button
                           onClick={() => handleRemoveItem(item.id)}
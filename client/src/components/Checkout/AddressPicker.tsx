@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { MapPin, Plus } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import { addressService } from '../../services/apiService';
+import { ADDRESSES_QUERY_KEY } from '../User/AddressBook';
+import { formatAddress } from '../../utils/address';
+import type { Address } from '@shared/schema';
+
+interface AddressPickerProps {
+  selectedId: string | null;
+  // Called with null when the shopper chooses to type a new address
+  onSelect: (address: Address | null) => void;
+}
+
+/**
+ * Lets signed-in shoppers fill the shipping form from their address book.
+ * The default address is picked automatically the first time the list loads.
+ */
+const AddressPicker: React.FC<AddressPickerProps> = ({ selectedId, onSelect }) => {
+  const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const { data } = useQuery({
+    queryKey: ADDRESSES_QUERY_KEY,
+    queryFn: () => addressService.getAddresses(),
+    enabled: isAuthenticated,
+  });
+  const addresses = data?.addresses || [];
+  const autoSelected = useRef(false);
+
+  useEffect(() => {
+    if (autoSelected.current || addresses.length === 0) return;
+    autoSelected.current = true;
+    const preferred = addresses.find((address) => address.isDefault) ?? addresses[0];
+    onSelect(preferred);
+  }, [addresses, onSelect]);
+
+  if (!isAuthenticated || addresses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold text-gray-900">Deliver To</h3>
+      {addresses.map((address) => (
+        <label
+          key={address.id}
+          className={`flex items-start space-x-3 p-4 border rounded-xl cursor-pointer transition-colors ${
+            selectedId === address.id ? 'border-yellow-500 bg-yellow-50' : 'border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          <input
+            type="radio"
+            name="saved-address"
+            checked={selectedId === address.id}
+            onChange={() => onSelect(address)}
+            className="mt-1 text-yellow-600 focus:ring-yellow-500"
+          />
+          <div className="flex-1">
+            <div className="flex items-center space-x-2">
+              <MapPin className="w-4 h-4 text-gray-400" />
+              <span className="font-medium text-gray-900">{address.label}</span>
+              {address.isDefault && (
+                <span className="text-xs bg-yellow-600 text-white px-2 py-0.5 rounded-full">Default</span>
+              )}
+            </div>
+            <p className="text-sm text-gray-900 mt-1">{address.fullName} · {address.phone}</p>
+            <p className="text-sm text-gray-600">{formatAddress(address)}</p>
+          </div>
+        </label>
+      ))}
+      <label
+        className={`flex items-center space-x-3 p-4 border rounded-xl cursor-pointer transition-colors ${
+          selectedId === null ? 'border-yellow-500 bg-yellow-50' : 'border-gray-200 hover:border-gray-300'
+        }`}
+      >
+        <input
+          type="radio"
+          name="saved-address"
+          checked={selectedId === null}
+          onChange={() => onSelect(null)}
+          className="text-yellow-600 focus:ring-yellow-500"
+        />
+        <Plus className="w-4 h-4 text-gray-400" />
+        <span className="text-gray-700">Use a different address</span>
+      </label>
+    </div>
+  );
+};
+
+export default AddressPicker;
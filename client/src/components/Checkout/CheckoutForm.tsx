@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../../store';
-import { clearCart } from '../../store/slices/cartSlice';
+import { clearCart, cartItemPrice } from '../../store/slices/cartSlice';
 import { addOrder, OrderItem } from '../../store/slices/orderSlice';
 import { User, Mail, Phone, MapPin, CreditCard, Truck, CheckCircle, ArrowLeft } from 'lucide-react';
 import { useForm } from 'react-hook-form';
@@ -11,6 +12,10 @@ import { z } from 'zod';
 import StreamlinedPaymentMethod, { StreamlinedPaymentMethodType } from '../Payment/StreamlinedPaymentMethod';
 import StreamlinedPaymentSection from '../Payment/StreamlinedPaymentSection';
 import { generateTransactionId } from '../../utils/paymentUtils';
+import { formatAddress } from '../../utils/address';
+import { paths } from '../../utils/paths';
+import AddressPicker from './AddressPicker';
+import type { Address } from '@shared/schema';
 
 const checkoutSchema = z.object({
   fullName: z.string().min(2, 'Full name must be at least 2 characters'),
@@ -31,10 +36,12 @@ interface CheckoutFormProps {
 
 const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
   const dispatch = useDispatch();
+  const navigate = useNavigate();
   const { items, total } = useSelector((state: RootState) => state.cart);
   const [currentStep, setCurrentStep] = useState(1); // 1: Details, 2: Payment, 3: Confirmation
   const [orderData, setOrderData] = useState<any>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [savedAddress, setSavedAddress] = useState<Address | null>(null);
 
   // Helper function to get product price (handles both regular and deal products)
   const getProductPrice = (prod: any) => {
@@ -61,8 +68,11 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
         price: getProductPrice(item.product),
         images: item.product.images || ['/placeholder.jpg'],
       },
+      variant: item.variant
+        ? { id: item.variant.id, sku: item.variant.sku, options: item.variant.options }
+        : undefined,
       quantity: item.quantity || 1,
-      price: getProductPrice(item.product),
+      price: cartItemPrice(item),
     }));
 
   const orderTotal = product ? getProductPrice(product) : total;
@@ -75,11 +85,20 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
     handleSubmit,
     formState: { errors, isValid },
     watch,
+    setValue,
   } = useForm<CheckoutData>({
     resolver: zodResolver(checkoutSchema),
     mode: 'onChange',
   });
 
+  const handleAddressSelect = useCallback((address: Address | null) => {
+    setSavedAddress(address);
+    if (!address) return;
+    setValue('fullName', address.fullName, { shouldValidate: true });
+    setValue('phone', address.phone, { shouldValidate: true });
+    setValue('address', formatAddress(address), { shouldValidate: true });
+  }, [setValue]);
+
   const selectedPaymentMethod = watch('paymentMethod');
 
   const onSubmit = async (data: CheckoutData) => {
@@ -124,9 +143,9 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
         email: customerData.email,
         phone: customerData.phone,
         address: customerData.address,
-        city: 'Not specified',
-        state: 'Not specified', 
-        zipCode: 'Not specified',
+        city: savedAddress?.city ?? 'Not specified',
+        state: savedAddress?.state ?? 'Not specified', 
+        zipCode: savedAddress?.pincode ?? 'Not specified',
         country: 'India',
       },
       paymentMethod: customerData.paymentMethod,
@@ -218,6 +237,8 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
       </div>
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <AddressPicker selectedId={savedAddress?.id ?? null} onSelect={handleAddressSelect} />
+
         {/* Customer Information */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-gray-900">Customer Information</h3>
@@ -423,7 +444,7 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ onBack, product }) => {
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={() => window.dispatchEvent(new CustomEvent('navigate-to-orders'))}
+          onClick={() => navigate(paths.orders)}
           className="w-full bg-yellow-600 hover:bg-yellow-700 text-white px-8 py-3 rounded-xl font-semibold transition-colors"
         >
           View My Orders
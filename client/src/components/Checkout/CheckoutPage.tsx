@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../../store';
-import { clearCart, toggleCart } from '../../store/slices/cartSlice';
+import { clearCart, toggleCart, cartItemPrice } from '../../store/slices/cartSlice';
 import { addOrder } from '../../store/slices/orderSlice';
 import { ArrowLeft, CheckCircle, Package, Smartphone } from 'lucide-react';
 import StreamlinedPaymentMethod, { StreamlinedPaymentMethodType } from '../Payment/StreamlinedPaymentMethod';
@@ -77,8 +77,11 @@ const CheckoutPage: React.FC<CheckoutPageProps> = ({ product, onBack, onComplete
           price: item.product.price,
           images: item.product.images,
         },
+        variant: item.variant
+          ? { id: item.variant.id, sku: item.variant.sku, options: item.variant.options }
+          : undefined,
         quantity: item.quantity,
-        price: item.product.price * item.quantity,
+        price: cartItemPrice(item) * item.quantity,
       }));
 
     setOrderData({
@@ -339,7 +342,7 @@ const CheckoutPage: React.FC<CheckoutPageProps> = ({ product, onBack, onComplete
                 <p className="text-xs text-gray-600">Qty: {item.quantity}</p>
               </div>
               <p className="font-medium text-sm">
-                ${(item.product.price * item.quantity).toFixed(2)}
+                ${(cartItemPrice(item) * item.quantity).toFixed(2)}
               </p>
             </div>
           ))
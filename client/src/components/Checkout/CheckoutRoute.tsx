@@ -0,0 +1,65 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader } from 'lucide-react';
+import { productService } from '../../services/apiService';
+import { paths } from '../../utils/paths';
+import CheckoutForm from './CheckoutForm';
+import StreamlinedCheckout from './StreamlinedCheckout';
+import NotFound from '../Layout/NotFound';
+import type { Product } from '@shared/schema';
+
+/**
+ * /checkout pays for the cart; /checkout?buyNow=<slug> is the one-product
+ * checkout behind "Buy Now", which survives a refresh by refetching the product.
+ */
+const CheckoutRoute: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const buyNowSlug = searchParams.get('buyNow');
+  const handedOver = (location.state as { product?: Product } | null)?.product;
+  const buyNowProduct = handedOver?.slug === buyNowSlug ? handedOver : undefined;
+
+  const { data, isError } = useQuery({
+    queryKey: ['/api/products', 'slug', buyNowSlug],
+    queryFn: () => productService.getProduct(buyNowSlug!),
+    enabled: !!buyNowSlug && !buyNowProduct,
+    retry: false,
+  });
+
+  // Back returns to wherever the shopper came from; a direct visit has nowhere to go back to
+  const handleBack = () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate(paths.home);
+    }
+  };
+
+  if (!buyNowSlug) {
+    return <CheckoutForm onBack={handleBack} />;
+  }
+
+  const product = buyNowProduct ?? data?.product;
+  if (isError) {
+    return <NotFound />;
+  }
+  if (!product) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader className="w-8 h-8 animate-spin text-yellow-600" />
+      </div>
+    );
+  }
+
+  return (
+    <StreamlinedCheckout
+      product={product}
+      onBack={handleBack}
+      onComplete={() => navigate(paths.orders, { replace: true })}
+    />
+  );
+};
+
+export default CheckoutRoute;
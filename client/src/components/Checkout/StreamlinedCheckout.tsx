@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, ArrowRight, User, Mail, Phone, MapPin, CheckCircle, AlertCircle } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -9,6 +10,10 @@ import { addOrder } from '../../store/slices/orderSlice';
 import { clearCart } from '../../store/slices/cartSlice';
 import StreamlinedPaymentMethod, { StreamlinedPaymentMethodType } from '../Payment/StreamlinedPaymentMethod';
 import StreamlinedPaymentSection from '../Payment/StreamlinedPaymentSection';
+import { formatStreet } from '../../utils/address';
+import { paths } from '../../utils/paths';
+import AddressPicker from './AddressPicker';
+import type { Address } from '@shared/schema';
 
 const shippingSchema = z.object({
   fullName: z.string().min(2, 'Full name is required'),
@@ -36,6 +41,7 @@ const StreamlinedCheckout: React.FC<StreamlinedCheckoutProps> = ({
   onBack, 
   onComplete 
 }) => {
+  const navigate = useNavigate();
   const [currentStep, setCurrentStep] = useState(1); // 1: Shipping, 2: Payment Selection, 3: Payment Processing, 4: Confirmation
   const [shippingData, setShippingData] = useState<ShippingData | null>(null);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<StreamlinedPaymentMethodType>('upi');
@@ -43,17 +49,30 @@ const StreamlinedCheckout: React.FC<StreamlinedCheckoutProps> = ({
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [orderConfirmed, setOrderConfirmed] = useState(false);
   const [orderId] = useState(`ORD-${Date.now()}`); // Generate orderId once and keep it stable
+  const [savedAddressId, setSavedAddressId] = useState<string | null>(null);
   const dispatch = useDispatch();
 
   const {
     register,
     handleSubmit,
     formState: { errors, isValid },
+    setValue,
   } = useForm<ShippingData>({
     resolver: zodResolver(shippingSchema),
     mode: 'onChange',
   });
 
+  const handleAddressSelect = useCallback((address: Address | null) => {
+    setSavedAddressId(address?.id ?? null);
+    if (!address) return;
+    setValue('fullName', address.fullName, { shouldValidate: true });
+    setValue('phone', address.phone, { shouldValidate: true });
+    setValue('address', formatStreet(address), { shouldValidate: true });
+    setValue('city', address.city, { shouldValidate: true });
+    setValue('state', address.state, { shouldValidate: true });
+    setValue('zipCode', address.pincode, { shouldValidate: true });
+  }, [setValue]);
+
   // Calculate order details - ONLY base product price
   const orderItems = product ? 
     [{
@@ -68,7 +87,7 @@ const StreamlinedCheckout: React.FC<StreamlinedCheckoutProps> = ({
   };
   
   const baseAmount = product ? getProductPrice(product) : 
-    cartItems.reduce((sum, item) => sum + (getProductPrice(item.product) * (item.quantity || 0)), 0);
+    cartItems.reduce((sum, item) => sum + (getProductPrice(item.variant ?? item.product) * (item.quantity || 0)), 0);
 
   // Final amount is ONLY the base price - no taxes, shipping, or fees
   const finalAmount = baseAmount || 0;
@@ -186,6 +205,8 @@ const StreamlinedCheckout: React.FC<StreamlinedCheckoutProps> = ({
       </div>
 
       <form onSubmit={handleSubmit(onShippingSubmit)} className="space-y-4">
+        <AddressPicker selectedId={savedAddressId} onSelect={handleAddressSelect} />
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Full Name *
@@ -492,7 +513,7 @@ const StreamlinedCheckout: React.FC<StreamlinedCheckoutProps> = ({
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={() => window.dispatchEvent(new CustomEvent('navigate-to-orders'))}
+          onClick={() => navigate(paths.orders)}
           className="w-full bg-yellow-600 hover:bg-yellow-700 text-white px-8 py-3 rounded-xl font-semibold transition-colors"
         >
           View My Orders
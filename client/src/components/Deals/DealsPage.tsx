@@ -0,0 +1,12 @@
+import React from 'react';
+import SpecialDeals from '../HomePage/SpecialDeals';
+import OneRupeeDeals from './OneRupeeDeals';
+
+const DealsPage: React.FC = () => (
+  <main className="pt-20">
+    <SpecialDeals />
+    <OneRupeeDeals />
+  </main>
+);
+
+export default DealsPage;
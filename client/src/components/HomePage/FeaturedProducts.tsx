@@ -1,15 +1,14 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import ProductGrid from '../Products/ProductGrid';
 import { useQuery } from '@tanstack/react-query';
 import { productService } from '../../services/apiService';
 import { Loader } from 'lucide-react';
+import { paths } from '../../utils/paths';
 
-interface FeaturedProductsProps {
-  onNavigate: (page: string) => void;
-}
-
-const FeaturedProducts: React.FC<FeaturedProductsProps> = ({ onNavigate }) => {
+const FeaturedProducts: React.FC = () => {
+  const navigate = useNavigate();
   const { data: featuredProductsData, isLoading: loading } = useQuery({
     queryKey: ['/api/products', { featured: true, limit: 6 }],
     queryFn: () => productService.getProducts({ featured: true, limit: 6 }),
@@ -43,7 +42,7 @@ const FeaturedProducts: React.FC<FeaturedProductsProps> = ({ onNavigate }) => {
               </div>
             </div>
           ) : featuredProducts.length > 0 ? (
-            <ProductGrid products={featuredProducts} onNavigate={onNavigate} featured={true} />
+            <ProductGrid products={featuredProducts} featured={true} />
           ) : (
             <div className="text-center py-12">
               <p className="text-gray-600">No featured products available</p>
@@ -61,7 +60,7 @@ const FeaturedProducts: React.FC<FeaturedProductsProps> = ({ onNavigate }) => {
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              onClick={() => onNavigate('products')}
+              onClick={() => navigate(paths.products)}
               className="bg-gray-900 hover:bg-gray-800 text-white px-8 py-4 rounded-xl font-semibold text-lg transition-colors"
             >
               View All Products
@@ -1,13 +1,12 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ArrowRight, Play } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import StoryViewer from '../Story/StoryViewer';
+import { paths } from '../../utils/paths';
 
-interface HeroProps {
-  onNavigate: (page: string) => void;
-}
-
-const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
+const Hero: React.FC = () => {
+  const navigate = useNavigate();
   const [showStoryViewer, setShowStoryViewer] = useState(false);
 
   const stories = [
@@ -90,7 +89,7 @@ const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={() => onNavigate('products')}
+                onClick={() => navigate(paths.products)}
                 className="bg-yellow-600 hover:bg-yellow-700 text-white px-6 sm:px-8 py-3 sm:py-4 rounded-xl font-semibold text-base sm:text-lg flex items-center space-x-2 transition-colors shadow-lg w-full sm:w-auto justify-center"
               >
                 <span>Shop Collection</span>
@@ -0,0 +1,24 @@
+import React from 'react';
+import Hero from './Hero';
+import SpecialDeals from './SpecialDeals';
+import FeaturedProducts from './FeaturedProducts';
+import PersonalizedRails from './PersonalizedRails';
+import Testimonials from './Testimonials';
+import Newsletter from './Newsletter';
+import ProductGrid from '../Products/ProductGrid';
+import OneRupeeDeals from '../Deals/OneRupeeDeals';
+
+const HomePage: React.FC = () => (
+  <main>
+    <Hero />
+    <SpecialDeals />
+    <PersonalizedRails />
+    <FeaturedProducts />
+    <ProductGrid />
+    <OneRupeeDeals />
+    <Testimonials />
+    <Newsletter />
+  </main>
+);
+
+export default HomePage;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { useQuery } from '@tanstack/react-query';
+import { RootState } from '../../store';
+import { personalizationService } from '../../services/apiService';
+import { useProductNavigation } from '../../hooks/useProductNavigation';
+import ProductRail from '../Products/ProductRail';
+
+/**
+ * "Because you viewed…", "Recently viewed" and "Picks for your style", or
+ * bestsellers for shoppers we know nothing about yet.
+ */
+const PersonalizedRails: React.FC = () => {
+  const { openProduct } = useProductNavigation();
+  const userId = useSelector((state: RootState) => state.auth.user?.id ?? null);
+  const viewed = useSelector((state: RootState) => state.history.items).map((entry) => entry.product.id);
+  const wishlist = useSelector((state: RootState) => state.wishlist.items).map((product) => product.id);
+
+  const { data } = useQuery({
+    queryKey: ['/api/personalization/home', userId, viewed, wishlist],
+    queryFn: () => personalizationService.getHomeRails({ viewed, wishlist }),
+  });
+
+  const rails = data?.rails ?? [];
+  if (rails.length === 0) return null;
+
+  return (
+    <section className="py-16 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-10">
+        {rails.map((rail) => (
+          <ProductRail key={rail.kind} title={rail.title} products={rail.products} onSelect={openProduct} />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default PersonalizedRails;
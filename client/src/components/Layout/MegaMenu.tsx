@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, LayoutGrid } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { categoryService } from '../../services/apiService';
+import type { CategoryNode } from '@shared/schema';
+
+export const CATEGORY_TREE_QUERY_KEY = ['/api/categories/tree'];
+
+interface MegaMenuProps {
+  onSelectCategory: (slug: string) => void;
+}
+
+// Grandchildren beyond this many collapse into a "View all" link
+const MAX_LEAVES = 5;
+
+/**
+ * Desktop "Shop" menu: one column per top-level category, listing its
+ * subcategories and their first few children.
+ */
+const MegaMenu: React.FC<MegaMenuProps> = ({ onSelectCategory }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>();
+  const { data } = useQuery({
+    queryKey: CATEGORY_TREE_QUERY_KEY,
+    queryFn: () => categoryService.getCategoryTree(),
+    staleTime: 5 * 60 * 1000,
+  });
+  const roots = data?.categories || [];
+
+  // A short delay lets the pointer cross the gap between the button and the panel
+  const open = () => {
+    clearTimeout(closeTimer.current);
+    setIsOpen(true);
+  };
+  const close = () => {
+    closeTimer.current = setTimeout(() => setIsOpen(false), 150);
+  };
+
+  const select = (category: CategoryNode) => {
+    setIsOpen(false);
+    onSelectCategory(category.slug);
+  };
+
+  if (roots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="relative" onMouseEnter={open} onMouseLeave={close}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="flex items-center space-x-2 text-gray-700 hover:text-yellow-600 transition-colors px-2 xl:px-4 py-3 rounded-lg"
+      >
+        <LayoutGrid className="w-5 h-5" />
+        <span className="font-medium text-sm xl:text-lg">Shop</span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.15 }}
+            onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+            className="absolute left-0 top-full mt-2 w-[48rem] max-w-[90vw] bg-white rounded-xl shadow-xl border border-gray-100 p-6 z-50"
+          >
+            <div className="grid grid-cols-3 gap-6">
+              {roots.map((root) => (
+                <div key={root.id}>
+                  <button
+                    onClick={() => select(root)}
+                    className="font-semibold text-gray-900 hover:text-yellow-600 transition-colors"
+                  >
+                    {root.name}
+                  </button>
+                  <ul className="mt-3 space-y-2">
+                    {root.children.map((child) => (
+                      <li key={child.id}>
+                        <button
+                          onClick={() => select(child)}
+                          className="text-sm text-gray-700 hover:text-yellow-600 transition-colors"
+                        >
+                          {child.name}
+                        </button>
+                        {child.children.length > 0 && (
+                          <ul className="mt-1 ml-3 space-y-1">
+                            {child.children.slice(0, MAX_LEAVES).map((leaf) => (
+                              <li key={leaf.id}>
+                                <button
+                                  onClick={() => select(leaf)}
+                                  className="text-xs text-gray-500 hover:text-yellow-600 transition-colors"
+                                >
+                                  {leaf.name}
+                                </button>
+                              </li>
+                            ))}
+                            {child.children.length > MAX_LEAVES && (
+                              <li>
+                                <button
+                                  onClick={() => select(child)}
+                                  className="text-xs font-medium text-yellow-600 hover:text-yellow-700"
+                                >
+                                  View all
+                                </button>
+                              </li>
+                            )}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default MegaMenu;
@@ -1,29 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, ShoppingCart, User, Menu, X, Home, Package, Heart, Settings, ShoppingBag } from 'lucide-react';
+import { Search, ShoppingCart, User, Menu, X, Home, Package, Heart, Settings, ShoppingBag, TrendingUp, Tag } from 'lucide-react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
 import { toggleCart } from '../../store/slices/cartSlice';
 import { setSearchQuery } from '../../store/slices/productSlice';
 import { logout } from '../../store/slices/authSlice';
+import { AuthService } from '../../lib/auth';
+import { searchService, categoryService } from '../../services/apiService';
 import AuthModal from '../Auth/AuthModal';
+import MegaMenu, { CATEGORY_TREE_QUERY_KEY } from './MegaMenu';
+import { paths } from '../../utils/paths';
 
-interface NavbarProps {
-  onNavigate: (page: string) => void;
+interface SuggestionItem {
+  type: 'query' | 'product' | 'category';
+  label: string;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
+const suggestionIcons = {
+  query: TrendingUp,
+  product: Search,
+  category: Tag,
+};
+
+const Navbar: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const [searchInput, setSearchInput] = useState('');
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const { user } = useSelector((state: RootState) => state.auth);
   
   const dispatch = useDispatch();
   const { items } = useSelector((state: RootState) => state.cart);
-  const { products } = useSelector((state: RootState) => state.products);
   
   // Authentication is handled by API service
 
@@ -38,53 +53,107 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      dispatch(setSearchQuery(searchInput));
-      
-      // Generate search suggestions
-      if (searchInput.length > 0) {
-        const suggestions = products
-          .filter(product => 
-            product.name.toLowerCase().includes(searchInput.toLowerCase()) ||
-            product.category.toLowerCase().includes(searchInput.toLowerCase())
-          )
-          .slice(0, 5)
-          .map(product => product.name);
-        setSearchSuggestions(suggestions);
-        setShowSuggestions(true);
-      } else {
-        setShowSuggestions(false);
+      setDebouncedSearch(searchInput.trim());
+      setHighlightedIndex(-1);
+      // Clearing the box resets the results straight away
+      if (searchInput.trim() === '') {
+        dispatch(setSearchQuery(''));
       }
-    }, 300);
+    }, 200);
 
     return () => clearTimeout(timer);
-  }, [searchInput, dispatch, products]);
+  }, [searchInput, dispatch]);
+
+  const { data: suggestionData } = useQuery({
+    queryKey: ['/api/search/suggest', debouncedSearch],
+    queryFn: () => searchService.getSuggestions(debouncedSearch),
+    enabled: showSuggestions,
+    staleTime: 60 * 1000,
+  });
+
+  // The mobile menu lists top-level categories; the desktop mega-menu shares this query
+  const { data: categoryTree } = useQuery({
+    queryKey: CATEGORY_TREE_QUERY_KEY,
+    queryFn: () => categoryService.getCategoryTree(),
+    enabled: isMenuOpen,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // One flat list so arrow keys move across all groups
+  const searchSuggestions: SuggestionItem[] = [
+    ...(suggestionData?.queries ?? []).map((label) => ({ type: 'query' as const, label })),
+    ...(suggestionData?.products ?? []).map((product) => ({ type: 'product' as const, label: product.name })),
+    ...(suggestionData?.categories ?? []).map((label) => ({ type: 'category' as const, label })),
+  ];
+
+  const commitSearch = (term: string) => {
+    setSearchInput(term);
+    setShowSuggestions(false);
+    setHighlightedIndex(-1);
+    dispatch(setSearchQuery(term.trim()));
+    // Searching from a listing keeps its category; anywhere else starts from all products
+    if (!/^\/(products|category)(\/|$)/.test(location.pathname)) {
+      navigate(paths.products);
+    }
+    setIsMenuOpen(false);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setShowSuggestions(true);
+        setHighlightedIndex((index) => (searchSuggestions.length === 0 ? -1 : (index + 1) % searchSuggestions.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((index) => (index <= 0 ? searchSuggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        commitSearch(highlightedIndex >= 0 && searchSuggestions[highlightedIndex]
+          ? searchSuggestions[highlightedIndex].label
+          : searchInput);
+        break;
+      case 'Escape':
+        setShowSuggestions(false);
+        setHighlightedIndex(-1);
+        break;
+    }
+  };
 
   const cartItemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
   const navItems = [
-    { name: 'Home', icon: Home, page: 'home' },
-    { name: 'Products', icon: Package, page: 'products' },
-    { name: 'Orders', icon: ShoppingBag, page: 'orders' },
-    { name: 'Wishlist', icon: Heart, page: 'wishlist' },
-    { name: 'Account', icon: Settings, page: 'account' },
+    { name: 'Home', icon: Home, path: paths.home, requiresAuth: false },
+    { name: 'Products', icon: Package, path: paths.products, requiresAuth: false },
+    { name: 'Orders', icon: ShoppingBag, path: paths.orders, requiresAuth: true },
+    { name: 'Wishlist', icon: Heart, path: paths.wishlist, requiresAuth: true },
+    { name: 'Account', icon: Settings, path: paths.account, requiresAuth: true },
   ];
 
-  const handleNavigation = (page: string) => {
-    if ((page === 'wishlist' || page === 'account' || page === 'orders') && !user) {
+  const handleNavigation = (path: string, requiresAuth: boolean) => {
+    if (requiresAuth && !user) {
       setShowAuthModal(true);
       return;
     }
-    onNavigate(page);
+    navigate(path);
+    setIsMenuOpen(false);
+  };
+
+  const handleCategorySelect = (slug: string) => {
+    navigate(paths.category(slug));
     setIsMenuOpen(false);
   };
 
   const handleLogout = async () => {
+    await AuthService.signOut();
     dispatch(logout());
-    onNavigate('home');
+    navigate(paths.home);
   };
 
   const handleLogoClick = () => {
-    onNavigate('home');
+    navigate(paths.home);
   };
 
   return (
@@ -117,10 +186,11 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
 
             {/* Desktop Navigation with proper spacing */}
             <div className="hidden lg:flex items-center space-x-8 xl:space-x-12">
+              <MegaMenu onSelectCategory={handleCategorySelect} />
               {navItems.map((item) => (
                 <motion.button
                   key={item.name}
-                  onClick={() => handleNavigation(item.page)}
+                  onClick={() => handleNavigation(item.path, item.requiresAuth)}
                   className="flex items-center space-x-2 text-gray-700 hover:text-yellow-600 transition-colors px-2 xl:px-4 py-3 rounded-lg"
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -137,10 +207,18 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
                 <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                 <input
                   type="text"
+                  role="combobox"
+                  aria-expanded={showSuggestions && searchSuggestions.length > 0}
+                  aria-controls="search-suggestions"
+                  aria-activedescendant={highlightedIndex >= 0 ? `search-suggestion-${highlightedIndex}` : undefined}
                   placeholder="Search products..."
                   value={searchInput}
-                  onChange={(e) => setSearchInput(e.target.value)}
-                  onFocus={() => setShowSuggestions(searchInput.length > 0)}
+                  onChange={(e) => {
+                    setSearchInput(e.target.value);
+                    setShowSuggestions(true);
+                  }}
+                  onKeyDown={handleSearchKeyDown}
+                  onFocus={() => setShowSuggestions(true)}
                   onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
                   className="w-full pl-12 pr-4 py-3 lg:py-4 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white/90 backdrop-blur-sm text-sm lg:text-lg"
                 />
@@ -149,23 +227,39 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
                 <AnimatePresence>
                   {showSuggestions && searchSuggestions.length > 0 && (
                     <motion.div
+                      id="search-suggestions"
+                      role="listbox"
                       initial={{ opacity: 0, y: -10 }}
                       animate={{ opacity: 1, y: 0 }}
                       exit={{ opacity: 0, y: -10 }}
                       className="absolute top-full left-0 right-0 bg-white border border-gray-200 rounded-lg shadow-lg mt-1 z-50"
                     >
-                      {searchSuggestions.map((suggestion, index) => (
-                        <button
-                          key={index}
-                          onClick={() => {
-                            setSearchInput(suggestion);
-                            setShowSuggestions(false);
-                          }}
-                          className="w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors first:rounded-t-lg last:rounded-b-lg"
-                        >
-                          {suggestion}
-                        </button>
-                      ))}
+                      {!debouncedSearch && (
+                        <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Trending searches</p>
+                      )}
+                      {searchSuggestions.map((suggestion, index) => {
+                        const Icon = suggestionIcons[suggestion.type];
+                        return (
+                          <button
+                            key={`${suggestion.type}-${suggestion.label}`}
+                            id={`search-suggestion-${index}`}
+                            role="option"
+                            aria-selected={index === highlightedIndex}
+                            onMouseDown={(e) => e.preventDefault()}
+                            onMouseEnter={() => setHighlightedIndex(index)}
+                            onClick={() => commitSearch(suggestion.label)}
+                            className={`w-full flex items-center space-x-3 text-left px-4 py-3 transition-colors first:rounded-t-lg last:rounded-b-lg ${
+                              index === highlightedIndex ? 'bg-yellow-50' : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <span className="truncate">{suggestion.label}</span>
+                            {suggestion.type === 'category' && (
+                              <span className="ml-auto text-xs text-gray-400">Category</span>
+                            )}
+                          </button>
+                        );
+                      })}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -177,7 +271,7 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
               {/* User Profile */}
               {user ? (
                 <motion.button
-                  onClick={() => handleNavigation('account')}
+                  onClick={() => handleNavigation(paths.account, true)}
                   className="flex items-center space-x-3 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
                   whileHover={{ scale: 1.05 }}
                 >
@@ -255,6 +349,9 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
                     placeholder="Search products..."
                     value={searchInput}
                     onChange={(e) => setSearchInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitSearch(searchInput);
+                    }}
                     className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
                   />
                 </div>
@@ -264,7 +361,7 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
                   {navItems.map((item) => (
                     <motion.button
                       key={item.name}
-                      onClick={() => handleNavigation(item.page)}
+                      onClick={() => handleNavigation(item.path, item.requiresAuth)}
                       className="flex items-center space-x-3 py-4 text-gray-700 hover:text-yellow-600 transition-colors w-full text-left rounded-lg hover:bg-yellow-50 px-4"
                       whileHover={{ x: 5 }}
                     >
@@ -273,6 +370,21 @@ const Navbar: React.FC<NavbarProps> = ({ onNavigate }) => {
                     </motion.button>
                   ))}
                 </div>
+
+                {/* Mobile Categories */}
+                {categoryTree && categoryTree.categories.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-200">
+                    {categoryTree.categories.map((category) => (
+                      <button
+                        key={category.id}
+                        onClick={() => handleCategorySelect(category.slug)}
+                        className="px-4 py-2 rounded-full border border-gray-300 text-sm text-gray-700 hover:bg-yellow-50 hover:border-yellow-500 transition-colors"
+                      >
+                        {category.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
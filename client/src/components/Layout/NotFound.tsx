@@ -0,0 +1,24 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { paths } from '../../utils/paths';
+
+const NotFound: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-20 flex items-center justify-center px-4">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">Page not found</h1>
+        <p className="text-gray-600 mb-6">The page you were looking for has moved or no longer exists.</p>
+        <button
+          onClick={() => navigate(paths.products)}
+          className="bg-yellow-600 hover:bg-yellow-700 text-white px-6 py-3 rounded-xl font-semibold transition-colors"
+        >
+          Browse products
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotFound;
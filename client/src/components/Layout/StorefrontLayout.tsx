@@ -0,0 +1,26 @@
+import React from 'react';
+import { Outlet, useLocation } from 'react-router-dom';
+import Navbar from './Navbar';
+import Footer from './Footer';
+import CartSidebar from '../Cart/CartSidebar';
+import WhatsAppChat from '../UI/WhatsAppChat';
+import PaymentDiagnosticsPanel from '../UI/PaymentDiagnosticsPanel';
+import { paths } from '../../utils/paths';
+
+// Chrome shared by every storefront page; checkout renders without it
+const StorefrontLayout: React.FC = () => {
+  const { pathname } = useLocation();
+
+  return (
+    <div className="min-h-screen bg-white font-inter">
+      <Navbar />
+      <Outlet />
+      {pathname === paths.home && <Footer />}
+      <CartSidebar />
+      <WhatsAppChat />
+      <PaymentDiagnosticsPanel />
+    </div>
+  );
+};
+
+export default StorefrontLayout;
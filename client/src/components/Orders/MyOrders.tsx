@@ -1,13 +1,19 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { motion } from 'framer-motion';
 import { Package, Truck, CheckCircle, Clock, Eye, RotateCcw, MapPin, Phone } from 'lucide-react';
 import { useSelector } from 'react-redux';
+import { useNavigate, useParams } from 'react-router-dom';
 import { RootState } from '../../store';
+import { paths } from '../../utils/paths';
 
 const MyOrders: React.FC = () => {
   const { orders } = useSelector((state: RootState) => state.orders);
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
-  const [selectedOrder, setSelectedOrder] = useState<any>(null);
+  const navigate = useNavigate();
+  // /orders/:id opens that order's details over the list
+  const { id } = useParams<{ id: string }>();
+  const selectedOrder = id ? orders.find((order) => order.id === id) : undefined;
+  const closeDetails = () => navigate(paths.orders);
 
   if (!isAuthenticated) {
     return (
@@ -71,7 +77,7 @@ const MyOrders: React.FC = () => {
       animate={{ opacity: 1, scale: 1 }}
       exit={{ opacity: 0, scale: 0.9 }}
       className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
-      onClick={() => setSelectedOrder(null)}
+      onClick={closeDetails}
     >
       <div
         className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
@@ -81,7 +87,7 @@ const MyOrders: React.FC = () => {
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-gray-900">Order Details</h2>
             <button
-              onClick={() => setSelectedOrder(null)}
+              onClick={closeDetails}
               className="text-gray-500 hover:text-gray-700"
             >
               <X className="w-6 h-6" />
@@ -170,7 +176,7 @@ const MyOrders: React.FC = () => {
               </button>
             )}
             <button
-              onClick={() => setSelectedOrder(null)}
+              onClick={closeDetails}
               className="flex-1 bg-gray-200 text-gray-800 py-3 rounded-xl font-semibold hover:bg-gray-300 transition-colors"
             >
               Close
@@ -272,7 +278,7 @@ const MyOrders: React.FC = () => {
                     <motion.button
                       whileHover={{ scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
-                      onClick={() => setSelectedOrder(order)}
+                      onClick={() => navigate(paths.order(order.id))}
                       className="flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 rounded-xl hover:border-gray-400 transition-colors"
                     >
                       <Eye className="w-4 h-4" />
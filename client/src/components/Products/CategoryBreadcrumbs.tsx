@@ -0,0 +1,45 @@
+import React from 'react';
+import { ChevronRight } from 'lucide-react';
+import type { CategoryCrumb } from '@shared/schema';
+
+interface CategoryBreadcrumbsProps {
+  crumbs: CategoryCrumb[];
+  // Trailing, non-clickable item such as the product name
+  current?: string;
+  // Called with null for the "All Products" root
+  onSelect: (slug: string | null) => void;
+}
+
+const CategoryBreadcrumbs: React.FC<CategoryBreadcrumbsProps> = ({ crumbs, current, onSelect }) => {
+  const items = [{ slug: null as string | null, name: 'All Products' }, ...crumbs];
+
+  return (
+    <nav aria-label="Breadcrumb">
+      <ol className="flex flex-wrap items-center text-sm text-gray-500">
+        {items.map((item, index) => {
+          const isLast = index === items.length - 1 && !current;
+          return (
+            <li key={item.slug ?? 'all'} className="flex items-center">
+              {index > 0 && <ChevronRight className="w-4 h-4 mx-1 text-gray-400" />}
+              {isLast ? (
+                <span aria-current="page" className="text-gray-900 font-medium">{item.name}</span>
+              ) : (
+                <button onClick={() => onSelect(item.slug)} className="hover:text-yellow-600 transition-colors">
+                  {item.name}
+                </button>
+              )}
+            </li>
+          );
+        })}
+        {current && (
+          <li className="flex items-center">
+            <ChevronRight className="w-4 h-4 mx-1 text-gray-400" />
+            <span aria-current="page" className="text-gray-900 font-medium truncate max-w-xs">{current}</span>
+          </li>
+        )}
+      </ol>
+    </nav>
+  );
+};
+
+export default CategoryBreadcrumbs;
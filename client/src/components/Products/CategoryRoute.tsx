@@ -0,0 +1,11 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import ProductsPage from './ProductsPage';
+
+// /category/:slug is the catalog narrowed to that category and its children
+const CategoryRoute: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  return <ProductsPage categorySlug={slug} />;
+};
+
+export default CategoryRoute;
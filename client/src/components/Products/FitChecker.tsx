@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Ruler, CheckCircle, AlertTriangle, XCircle, Save, Trash2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import { roomService, type RoomInput } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { productBox, checkFit, fitVerdict, type FitMeasurements, type FitStatus } from '../../utils/fit';
+import type { ProductSpecs, RoomProfile } from '@shared/schema';
+
+export const ROOMS_QUERY_KEY = ['/api/me/rooms'];
+
+type MeasurementKey = keyof FitMeasurements;
+
+const fields: { key: MeasurementKey; label: string }[] = [
+  { key: 'roomWidthCm', label: 'Room width' },
+  { key: 'roomLengthCm', label: 'Room length' },
+  { key: 'ceilingHeightCm', label: 'Ceiling height' },
+  { key: 'doorWidthCm', label: 'Door width' },
+  { key: 'doorHeightCm', label: 'Door height' },
+  { key: 'passageWidthCm', label: 'Narrowest stair/corridor' },
+];
+
+const verdictStyles: Record<FitStatus, { icon: React.ElementType; className: string; title: string }> = {
+  fits: { icon: CheckCircle, className: 'text-green-700 bg-green-50 border-green-200', title: 'It fits' },
+  tight: { icon: AlertTriangle, className: 'text-yellow-800 bg-yellow-50 border-yellow-200', title: "It's a tight fit" },
+  no_fit: { icon: XCircle, className: 'text-red-700 bg-red-50 border-red-200', title: "It won't fit" },
+};
+
+const toInputs = (room?: FitMeasurements) =>
+  Object.fromEntries(fields.map(({ key }) => [key, room?.[key] ? String(room[key]) : ''])) as Record<MeasurementKey, string>;
+
+interface FitCheckerProps {
+  specs: ProductSpecs;
+}
+
+/**
+ * "Will it fit?" panel on the product page. Measurements are in centimetres;
+ * signed-in shoppers can save them as named rooms and reuse them on other products.
+ */
+const FitChecker: React.FC<FitCheckerProps> = ({ specs }) => {
+  const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const [isOpen, setIsOpen] = useState(false);
+  const [inputs, setInputs] = useState(() => toInputs());
+  const [selectedRoom, setSelectedRoom] = useState<RoomProfile | null>(null);
+  const [roomName, setRoomName] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ROOMS_QUERY_KEY,
+    queryFn: () => roomService.getRooms(),
+    enabled: isAuthenticated && isOpen,
+  });
+  const rooms = data?.rooms || [];
+
+  const box = productBox(specs);
+  if (!box) {
+    return null;
+  }
+
+  const measurements = Object.fromEntries(
+    fields.map(({ key }) => [key, inputs[key] ? Math.round(Number(inputs[key])) || null : null])
+  ) as Record<MeasurementKey, number | null>;
+  const checks = checkFit(box, measurements);
+  const verdict = fitVerdict(checks);
+
+  const selectRoom = (id: string) => {
+    const room = rooms.find((r) => r.id === id) ?? null;
+    setSelectedRoom(room);
+    setRoomName(room?.name ?? '');
+    setInputs(toInputs(room ?? undefined));
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setIsSaving(true);
+    const payload: RoomInput = { name: roomName.trim(), ...measurements };
+    try {
+      const result = selectedRoom
+        ? await roomService.updateRoom(selectedRoom.id, payload)
+        : await roomService.createRoom(payload);
+      await queryClient.invalidateQueries({ queryKey: ROOMS_QUERY_KEY });
+      setSelectedRoom(result.room);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save room');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRoom || !window.confirm(`Delete the "${selectedRoom.name}" room?`)) return;
+    try {
+      await roomService.deleteRoom(selectedRoom.id);
+      await queryClient.invalidateQueries({ queryKey: ROOMS_QUERY_KEY });
+      setSelectedRoom(null);
+      setRoomName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete room');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center space-x-3">
+          <Ruler className="w-5 h-5 text-yellow-600" />
+          <span className="font-semibold text-gray-900">Will it fit?</span>
+        </span>
+        <span className="text-sm text-gray-500">
+          {box.widthCm} × {box.depthCm} × {box.heightCm} cm
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {isAuthenticated && rooms.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Saved rooms</label>
+              <select
+                value={selectedRoom?.id ?? ''}
+                onChange={(e) => selectRoom(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                <option value="">New measurements</option>
+                {rooms.map((room) => (
+                  <option key={room.id} value={room.id}>{room.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {fields.map(({ key, label }) => (
+              <div key={key}>
+                <label htmlFor={`fit-${key}`} className="block text-xs font-medium text-gray-600 mb-1">
+                  {label} (cm)
+                </label>
+                <input
+                  id={`fit-${key}`}
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  value={inputs[key]}
+                  onChange={(e) => setInputs({ ...inputs, [key]: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          {verdict ? (
+            <div className={`border rounded-lg p-4 ${verdictStyles[verdict].className}`} aria-live="polite">
+              <p className="flex items-center space-x-2 font-semibold">
+                {React.createElement(verdictStyles[verdict].icon, { className: 'w-5 h-5' })}
+                <span>{verdictStyles[verdict].title}</span>
+              </p>
+              <ul className="mt-2 space-y-1 text-sm">
+                {checks.map((check) => (
+                  <li key={check.label}>
+                    <span className="font-medium">{check.label}:</span> {check.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Enter your room, doorway or stair measurements to check before you buy.
+            </p>
+          )}
+
+          {isAuthenticated && verdict && (
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="text"
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                placeholder="Room name, e.g. Living room"
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !roomName.trim()}
+                className="flex items-center space-x-2 bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                <span>{selectedRoom ? 'Update room' : 'Save room'}</span>
+              </button>
+              {selectedRoom && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center space-x-1 text-red-600 hover:text-red-700 text-sm"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete</span>
+                </button>
+              )}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FitChecker;
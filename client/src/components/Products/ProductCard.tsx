@@ -5,16 +5,19 @@ import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../../store';
 import { addToCart } from '../../store/slices/cartSlice';
 import { addToWishlist, removeFromWishlist } from '../../store/slices/wishlistSlice';
-import type { Product } from '@shared/schema';
+import type { Product, ProductListItem } from '@shared/schema';
+import ProductImage from './ProductImage';
+import { useProductNavigation } from '../../hooks/useProductNavigation';
 
 interface ProductCardProps {
-  product: Product;
+  product: ProductListItem;
   onQuickView: (product: Product) => void;
   onBuyNow: (product: Product) => void;
 }
 
 const ProductCard: React.FC<ProductCardProps> = ({ product, onQuickView, onBuyNow }) => {
   const dispatch = useDispatch();
+  const { buyNow } = useProductNavigation();
   const { items: wishlistItems } = useSelector((state: RootState) => state.wishlist);
   const isInWishlist = wishlistItems.some(item => item.id === product.id);
 
@@ -34,10 +37,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onQuickView, onBuyNo
 
   const handleBuyNow = (e: React.MouseEvent) => {
     e.stopPropagation();
-    // Navigate to streamlined checkout
-    window.dispatchEvent(new CustomEvent('navigate-to-streamlined-checkout', { 
-      detail: { product } 
-    }));
+    buyNow(product);
   };
 
   return (
@@ -50,9 +50,11 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onQuickView, onBuyNo
       onClick={() => onQuickView(product)}
     >
       <div className="relative overflow-hidden">
-        <img
+        <ProductImage
           src={product.images[0]}
           alt={product.name}
+          assets={product.imageAssets}
+          sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
           className="w-full h-48 sm:h-56 md:h-64 object-cover group-hover:scale-105 transition-transform duration-300"
         />
         {product.originalPrice && (
@@ -89,14 +91,29 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onQuickView, onBuyNo
 
       <div className="p-6">
         <div className="flex items-center justify-between mb-2">
-          <h3 className="text-lg sm:text-xl font-semibold text-gray-900 line-clamp-1">{product.name}</h3>
+          {product.highlight?.name ? (
+            // Snippets are HTML-escaped on the server; only <mark> tags are added
+            <h3
+              className="text-lg sm:text-xl font-semibold text-gray-900 line-clamp-1 [&_mark]:bg-yellow-200 [&_mark]:rounded-sm"
+              dangerouslySetInnerHTML={{ __html: product.highlight.name }}
+            />
+          ) : (
+            <h3 className="text-lg sm:text-xl font-semibold text-gray-900 line-clamp-1">{product.name}</h3>
+          )}
           <div className="flex items-center space-x-1">
             <Star className="w-4 h-4 text-yellow-500 fill-current" />
             <span className="text-sm text-gray-600">{product.rating}</span>
           </div>
         </div>
         
-        <p className="text-gray-600 mb-4 line-clamp-2">{product.description}</p>
+        {product.highlight?.description ? (
+          <p
+            className="text-gray-600 mb-4 line-clamp-2 [&_mark]:bg-yellow-200 [&_mark]:rounded-sm"
+            dangerouslySetInnerHTML={{ __html: product.highlight.description }}
+          />
+        ) : (
+          <p className="text-gray-600 mb-4 line-clamp-2">{product.description}</p>
+        )}
         
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-2">
@@ -1,11 +1,23 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Star, ShoppingCart, Heart, Truck, Shield, RotateCcw, Plus, Minus } from 'lucide-react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
 import { addToCart } from '../../store/slices/cartSlice';
 import { addToWishlist, removeFromWishlist } from '../../store/slices/wishlistSlice';
 import { addToHistory } from '../../store/slices/historySlice';
+import { productService, historyService, HISTORY_QUERY_KEY } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { findVariant } from '../../utils/variant';
+import { categoryPath } from '../../utils/paths';
+import VariantPicker from './VariantPicker';
+import SpecTable from './SpecTable';
+import FitChecker from './FitChecker';
+import CategoryBreadcrumbs from './CategoryBreadcrumbs';
+import ProductImage from './ProductImage';
+import ProductRecommendations from './ProductRecommendations';
 import type { Product } from '@shared/schema';
 
 interface ProductDetailProps {
@@ -16,34 +28,87 @@ interface ProductDetailProps {
 
 const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose }) => {
   const dispatch = useDispatch();
+  const navigate = useNavigate();
   const [selectedImage, setSelectedImage] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
+  const historyPaused = useSelector((state: RootState) => state.auth.user?.historyPaused ?? false);
   const wishlistItems = useSelector((state: RootState) => state.wishlist.items);
   const isInWishlist = wishlistItems.some(item => item.id === product.id);
 
+  const { data: detail } = useQuery({
+    queryKey: ['/api/products', product.id],
+    queryFn: () => productService.getProduct(product.id),
+    enabled: isOpen,
+  });
+  // The product handed in may be a list copy or an old wishlist/history snapshot; stock and specs come from the fresh one
+  const current = detail?.product ?? product;
+  const variants = detail?.variants || [];
+  const selectedVariant = variants.length > 0 ? findVariant(variants, selectedOptions) ?? null : null;
+  const needsVariant = variants.length > 0 && !selectedVariant;
+  const isOutOfStock = selectedVariant ? selectedVariant.stock <= 0 : current.stock !== null && current.stock <= 0;
+
+  // Start from the first variant that can be bought
+  useEffect(() => {
+    if (variants.length === 0) return;
+    const initial = variants.find((variant) => variant.stock > 0) ?? variants[0];
+    setSelectedOptions({ ...initial.options });
+  }, [detail]);
+
+  const images = selectedVariant?.images?.length ? selectedVariant.images : product.images;
+  const imageAssets = current.imageAssets;
+  const price = Number(selectedVariant?.price ?? product.price);
+  const listPrice = selectedVariant ? selectedVariant.originalPrice : product.originalPrice;
+  const originalPrice = listPrice ? Number(listPrice) : null;
+
+  useEffect(() => {
+    setSelectedImage(0);
+  }, [selectedVariant?.id]);
+
+  // Signed-in views are saved to the account's history; a failure only costs a history entry
+  useEffect(() => {
+    if (isOpen && isAuthenticated && !historyPaused) {
+      historyService.recordView(product.id)
+        .then(() => queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY }))
+        .catch(() => {});
+    }
+  }, [isOpen, isAuthenticated, historyPaused, product.id]);
+
+  const rememberView = () => {
+    if (!historyPaused) dispatch(addToHistory(product));
+  };
+
   const handleAddToCart = () => {
+    if (needsVariant || isOutOfStock) return;
     for (let i = 0; i < quantity; i++) {
-      dispatch(addToCart(product));
+      dispatch(addToCart(product, selectedVariant));
     }
     // Add to history when user interacts with product
-    dispatch(addToHistory(product));
+    rememberView();
   };
 
   const handleWishlistToggle = () => {
     if (isInWishlist) {
       dispatch(removeFromWishlist(product.id));
     } else {
-      dispatch(addToWishlist(product));
+      dispatch(addToWishlist({ ...product, variant: selectedVariant }));
     }
   };
 
   const handleClose = () => {
     // Add to history when user views product
-    dispatch(addToHistory(product));
+    rememberView();
     onClose();
   };
 
+  // Leaving for the category page closes the modal along with its route
+  const handleBreadcrumbSelect = (slug: string | null) => {
+    rememberView();
+    navigate(categoryPath(slug));
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -79,16 +144,19 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
                 {/* Product Images */}
                 <div className="p-6 lg:p-8 space-y-4">
                   <div className="aspect-square rounded-xl overflow-hidden bg-gray-100">
-                    <img
-                      src={product.images[selectedImage]}
+                    <ProductImage
+                      src={images[selectedImage]}
                       alt={product.name}
+                      assets={imageAssets}
+                      sizes="(min-width: 1024px) 40vw, 100vw"
                       className="w-full h-full object-cover"
+                      eager
                     />
                   </div>
                   
-                  {product.images.length > 1 && (
+                  {images.length > 1 && (
                     <div className="flex space-x-2 overflow-x-auto pb-2">
-                      {product.images.map((image, index) => (
+                      {images.map((image, index) => (
                         <button
                           key={index}
                           onClick={() => setSelectedImage(index)}
@@ -98,9 +166,11 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
                               : 'border-gray-200 hover:border-gray-300'
                           }`}
                         >
-                          <img
+                          <ProductImage
                             src={image}
                             alt={`${product.name} ${index + 1}`}
+                            assets={imageAssets}
+                            sizes="64px"
                             className="w-full h-full object-cover"
                           />
                         </button>
@@ -111,6 +181,14 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
 
                 {/* Product Info */}
                 <div className="p-6 lg:p-8 space-y-6">
+                  {detail && (
+                    <CategoryBreadcrumbs
+                      crumbs={detail.breadcrumbs}
+                      current={product.name}
+                      onSelect={handleBreadcrumbSelect}
+                    />
+                  )}
+
                   <div>
                     <h1 className="text-2xl lg:text-3xl font-bold text-gray-900 mb-4">
                       {product.name}
@@ -136,22 +214,39 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
 
                     <div className="flex items-center space-x-4 mb-6">
                       <span className="text-2xl lg:text-3xl font-bold text-gray-900">
-                        ₹{product.price.toLocaleString('en-IN')}
+                        ₹{price.toLocaleString('en-IN')}
                       </span>
-                      {product.originalPrice && (
+                      {originalPrice && (
                         <span className="text-lg lg:text-xl text-gray-500 line-through">
-                          ₹{product.originalPrice.toLocaleString('en-IN')}
+                          ₹{originalPrice.toLocaleString('en-IN')}
                         </span>
                       )}
                     </div>
                   </div>
 
+                  {variants.length > 0 && (
+                    <div className="space-y-2">
+                      <VariantPicker variants={variants} selected={selectedOptions} onChange={setSelectedOptions} />
+                      <p className="text-sm text-gray-600">
+                        {selectedVariant
+                          ? `SKU ${selectedVariant.sku} · ${
+                              selectedVariant.stock > 0 ? `${selectedVariant.stock} in stock` : 'Out of stock'
+                            }`
+                          : 'This combination is not available'}
+                      </p>
+                    </div>
+                  )}
+
                   <div className="prose prose-gray max-w-none">
                     <p className="text-gray-700 leading-relaxed">
                       {product.description}
                     </p>
                   </div>
 
+                  {detail && <SpecTable specs={current.specs} template={detail.specTemplate} />}
+
+                  {current.specs && <FitChecker specs={current.specs} />}
+
                   {/* Features */}
                   <div className="grid grid-cols-1 gap-4">
                     <div className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
@@ -205,10 +300,11 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
                         onClick={handleAddToCart}
-                        className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white py-3 px-6 rounded-xl font-semibold transition-colors flex items-center justify-center space-x-2"
+                        disabled={needsVariant || isOutOfStock}
+                        className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white py-3 px-6 rounded-xl font-semibold transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <ShoppingCart className="w-5 h-5" />
-                        <span>Add to Cart</span>
+                        <span>{isOutOfStock ? 'Out of Stock' : 'Add to Cart'}</span>
                       </motion.button>
                       
                       <motion.button
@@ -225,6 +321,8 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product, isOpen, onClose
                       </motion.button>
                     </div>
                   </div>
+
+                  <ProductRecommendations productId={product.id} enabled={isOpen} />
                 </div>
               </div>
             </div>
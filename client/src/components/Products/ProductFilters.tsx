@@ -0,0 +1,192 @@
+import React from 'react';
+import { Star, X } from 'lucide-react';
+import type { ProductFacets, PriceRangeFacet } from '@shared/schema';
+import type { ProductQuery } from '../../services/apiService';
+
+export type ProductFilterState = Pick<
+  ProductQuery,
+  'category' | 'minPrice' | 'maxPrice' | 'minRating' | 'inStock' | 'onSale' | 'tags'
+>;
+
+interface ProductFiltersProps {
+  filters: ProductFilterState;
+  facets?: ProductFacets;
+  onChange: (filters: ProductFilterState) => void;
+}
+
+const ratingOptions = [4, 3, 2];
+
+const formatRupees = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const priceLabel = (range: PriceRangeFacet) =>
+  range.max === null
+    ? `${formatRupees(range.min)} & above`
+    : range.min === 0
+      ? `Under ${formatRupees(range.max)}`
+      : `${formatRupees(range.min)} – ${formatRupees(range.max)}`;
+
+const ProductFilters: React.FC<ProductFiltersProps> = ({ filters, facets, onChange }) => {
+  const update = (changes: Partial<ProductFilterState>) => onChange({ ...filters, ...changes });
+
+  const isPriceSelected = (range: PriceRangeFacet) =>
+    filters.minPrice === range.min && filters.maxPrice === (range.max ?? undefined);
+
+  const togglePrice = (range: PriceRangeFacet) =>
+    isPriceSelected(range)
+      ? update({ minPrice: undefined, maxPrice: undefined })
+      : update({ minPrice: range.min, maxPrice: range.max ?? undefined });
+
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags ?? [];
+    update({ tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag] });
+  };
+
+  const hasActiveFilters = Object.values(filters).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== false
+  );
+
+  return (
+    <aside className="bg-white rounded-xl shadow-sm p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Filters</h2>
+        {hasActiveFilters && (
+          <button
+            onClick={() => onChange({})}
+            className="flex items-center space-x-1 text-sm text-yellow-600 hover:text-yellow-700"
+          >
+            <X className="w-4 h-4" />
+            <span>Clear all</span>
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Category</h3>
+        <div className="space-y-2">
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="flex items-center">
+              <input
+                type="radio"
+                name="category"
+                checked={!filters.category}
+                onChange={() => update({ category: undefined })}
+                className="text-yellow-600 focus:ring-yellow-500"
+              />
+              <span className="ml-3 text-gray-700">All</span>
+            </span>
+          </label>
+          {facets?.categories.map((category) => (
+            <label key={category.value} className="flex items-center justify-between cursor-pointer">
+              <span className="flex items-center">
+                <input
+                  type="radio"
+                  name="category"
+                  checked={filters.category === category.value}
+                  onChange={() => update({ category: category.value })}
+                  className="text-yellow-600 focus:ring-yellow-500"
+                />
+                <span className="ml-3 text-gray-700">{category.label ?? category.value}</span>
+              </span>
+              <span className="text-sm text-gray-400">({category.count})</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Price</h3>
+        <div className="space-y-2">
+          {facets?.priceRanges.map((range) => (
+            <label
+              key={range.min}
+              className={`flex items-center justify-between cursor-pointer ${range.count === 0 && !isPriceSelected(range) ? 'opacity-50' : ''}`}
+            >
+              <span className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={isPriceSelected(range)}
+                  onChange={() => togglePrice(range)}
+                  disabled={range.count === 0 && !isPriceSelected(range)}
+                  className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+                />
+                <span className="ml-3 text-gray-700">{priceLabel(range)}</span>
+              </span>
+              <span className="text-sm text-gray-400">({range.count})</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Customer Rating</h3>
+        <div className="space-y-2">
+          {ratingOptions.map((rating) => (
+            <label key={rating} className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.minRating === rating}
+                onChange={() => update({ minRating: filters.minRating === rating ? undefined : rating })}
+                className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+              />
+              <span className="ml-3 flex items-center text-gray-700">
+                {rating}
+                <Star className="w-4 h-4 text-yellow-500 fill-current mx-1" />
+                & up
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 mb-3">Availability & Offers</h3>
+        <div className="space-y-2">
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!filters.inStock}
+              onChange={(e) => update({ inStock: e.target.checked || undefined })}
+              className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+            />
+            <span className="ml-3 text-gray-700">In stock only</span>
+          </label>
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!filters.onSale}
+              onChange={(e) => update({ onSale: e.target.checked || undefined })}
+              className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+            />
+            <span className="ml-3 text-gray-700">On sale</span>
+          </label>
+        </div>
+      </div>
+
+      {facets && facets.tags.length > 0 && (
+        <div>
+          <h3 className="font-medium text-gray-900 mb-3">Tags</h3>
+          <div className="flex flex-wrap gap-2">
+            {facets.tags.map((tag) => {
+              const selected = filters.tags?.includes(tag.value);
+              return (
+                <button
+                  key={tag.value}
+                  onClick={() => toggleTag(tag.value)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    selected
+                      ? 'bg-yellow-600 border-yellow-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {tag.value} ({tag.count})
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default ProductFilters;
@@ -1,64 +1,73 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
 import { productService } from '../../services/apiService';
 import ProductCard from './ProductCard';
-import ProductDetail from './ProductDetail';
-import CheckoutPage from '../Checkout/CheckoutPage';
-import type { Product } from '@shared/schema';
+import { useProductNavigation } from '../../hooks/useProductNavigation';
+import type { Product, ProductListItem } from '@shared/schema';
 
 interface ProductGridProps {
-  products?: Product[];
-  onNavigate?: (page: string) => void;
+  products?: ProductListItem[];
   category?: string;
   search?: string;
   featured?: boolean;
   limit?: number;
+  isLoading?: boolean;
+  // Supplied by pages that fetch page by page; the grid loads more as it scrolls
+  pagination?: {
+    total: number;
+    hasMore: boolean;
+    isLoadingMore: boolean;
+    onLoadMore: () => void;
+  };
 }
 
 const ProductGrid: React.FC<ProductGridProps> = ({ 
   products: providedProducts, 
-  onNavigate, 
   category, 
   search, 
   featured = false, 
-  limit = 8 
+  limit = 8,
+  isLoading = false,
+  pagination,
 }) => {
-  const { data: productsData, isLoading: loading, error } = useQuery({
+  const { data: productsData, isLoading: queryLoading, error } = useQuery({
     queryKey: ['/api/products', { category, search, featured, limit }],
     queryFn: () => productService.getProducts({ category, search, featured, limit }),
     enabled: !providedProducts, // Only fetch if products are not provided
   });
 
+  const loading = isLoading || queryLoading;
   const products = providedProducts || productsData?.products || [];
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [checkoutProduct, setCheckoutProduct] = useState<Product | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const hasMore = pagination?.hasMore ?? false;
+  const isLoadingMore = pagination?.isLoadingMore ?? false;
+  const onLoadMore = pagination?.onLoadMore;
+
+  // Infinite scroll: fetch the next page when the sentinel below the grid comes into view.
+  // pagination is a fresh object every render, so only its fields are dependencies.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        onLoadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+  const { openProduct, buyNow } = useProductNavigation();
 
   const handleQuickView = (product: Product) => {
-    setSelectedProduct(product);
+    openProduct(product);
   };
 
   const handleBuyNow = (product: Product) => {
-    // Navigate to streamlined checkout
-    window.dispatchEvent(new CustomEvent('navigate-to-streamlined-checkout', { 
-      detail: { product } 
-    }));
+    buyNow(product);
   };
 
-  const handleCheckoutComplete = () => {
-    setCheckoutProduct(null);
-  };
-
-  if (checkoutProduct) {
-    return (
-      <CheckoutPage
-        product={checkoutProduct}
-        onBack={() => setCheckoutProduct(null)}
-        onComplete={handleCheckoutComplete}
-      />
-    );
-  }
-
   if (loading) {
     return (
       <section className="py-20 bg-white">
@@ -120,44 +129,36 @@ const ProductGrid: React.FC<ProductGridProps> = ({
             transition={{ duration: 0.5 }}
             className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6"
           >
-            {products.map((product, index) => {
-              // Convert Supabase product to component format
-              const formattedProduct = {
-                id: product.id,
-                name: product.name,
-                description: product.description,
-                price: product.price,
-                originalPrice: product.original_price,
-                category: product.category,
-                images: product.images,
-                rating: product.rating,
-                reviewCount: product.review_count,
-                inStock: product.stock > 0,
-                tags: product.tags,
-                featured: product.featured,
-              };
-
-              return (
-                <ProductCard
-                  key={product.id}
-                  product={formattedProduct}
-                  onQuickView={handleQuickView}
-                  onBuyNow={handleBuyNow}
-                />
-              );
-            })}
+            {products.map((product) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                onQuickView={handleQuickView}
+                onBuyNow={handleBuyNow}
+              />
+            ))}
           </motion.div>
+
+          {pagination && (
+            <div ref={loadMoreRef} className="mt-10 text-center">
+              <p className="text-sm text-gray-500 mb-4">
+                {pagination.total === 0
+                  ? 'No products match these filters.'
+                  : `Showing ${products.length} of ${pagination.total} products`}
+              </p>
+              {pagination.hasMore && (
+                <button
+                  onClick={pagination.onLoadMore}
+                  disabled={pagination.isLoadingMore}
+                  className="bg-yellow-600 hover:bg-yellow-700 text-white px-6 py-2 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {pagination.isLoadingMore ? 'Loading...' : 'Load More'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </section>
-
-      {/* Product Detail Modal */}
-      {selectedProduct && (
-        <ProductDetail
-          product={selectedProduct}
-          isOpen={!!selectedProduct}
-          onClose={() => setSelectedProduct(null)}
-        />
-      )}
     </>
   );
 };
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import type { ResponsiveImage } from '@shared/schema';
+import { findImageAsset, imageSrcSet } from '../../utils/image';
+
+interface ProductImageProps {
+  src: string | undefined;
+  alt: string;
+  // Renditions from the product's imageAssets; hot-linked images have none and render as-is
+  assets?: ResponsiveImage[];
+  // Rendered width hint for the browser, e.g. "(min-width: 1024px) 25vw, 100vw"
+  sizes: string;
+  className?: string;
+  eager?: boolean;
+}
+
+/**
+ * Serves uploaded images as AVIF or WebP at the width the layout needs,
+ * over a blurred placeholder until the real image arrives.
+ */
+const ProductImage: React.FC<ProductImageProps> = ({ src, alt, assets, sizes, className, eager = false }) => {
+  const asset = findImageAsset(src, assets);
+  // Keyed on src so switching images shows the new placeholder rather than a stale loaded state
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const loading = eager ? 'eager' : 'lazy';
+
+  if (!asset) {
+    return <img src={src} alt={alt} loading={loading} className={className} />;
+  }
+
+  const placeholderStyle = loadedSrc === src
+    ? undefined
+    : { backgroundImage: `url(${asset.placeholder})`, backgroundSize: 'cover', backgroundPosition: 'center' };
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={imageSrcSet(asset, 'avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={imageSrcSet(asset, 'webp')} sizes={sizes} />
+      <img
+        src={asset.url}
+        alt={alt}
+        width={asset.width}
+        height={asset.height}
+        loading={loading}
+        decoding="async"
+        onLoad={() => setLoadedSrc(src ?? null)}
+        style={placeholderStyle}
+        className={className}
+      />
+    </picture>
+  );
+};
+
+export default ProductImage;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import ProductImage from './ProductImage';
+import type { Product } from '@shared/schema';
+
+interface ProductRailProps {
+  title: string;
+  products: Product[];
+  onSelect: (product: Product) => void;
+}
+
+// A titled, horizontally scrolling row of compact product cards
+const ProductRail: React.FC<ProductRailProps> = ({ title, products, onSelect }) => {
+  if (products.length === 0) return null;
+
+  return (
+    <section>
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">{title}</h3>
+      <div className="flex space-x-4 overflow-x-auto pb-2 -mx-1 px-1">
+        {products.map((product) => (
+          <button
+            key={product.id}
+            onClick={() => onSelect(product)}
+            className="flex-shrink-0 w-40 text-left group"
+          >
+            <div className="aspect-square rounded-lg overflow-hidden bg-gray-100 mb-2">
+              <ProductImage
+                src={product.images?.[0]}
+                alt={product.name}
+                assets={product.imageAssets}
+                sizes="160px"
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+              />
+            </div>
+            <p className="text-sm font-medium text-gray-900 line-clamp-2 group-hover:text-yellow-600 transition-colors">
+              {product.name}
+            </p>
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-sm font-bold text-gray-900">₹{Number(product.price).toLocaleString('en-IN')}</span>
+              {Number(product.rating) > 0 && (
+                <span className="flex items-center text-xs text-gray-500">
+                  <Star className="w-3 h-3 text-yellow-400 fill-current mr-0.5" />
+                  {Number(product.rating).toFixed(1)}
+                </span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ProductRail;
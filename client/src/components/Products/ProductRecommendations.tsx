@@ -0,0 +1,41 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { productService } from '../../services/apiService';
+import { useProductNavigation } from '../../hooks/useProductNavigation';
+import ProductRail from './ProductRail';
+
+interface ProductRecommendationsProps {
+  productId: string;
+  enabled: boolean;
+}
+
+// "Customers also bought" and "You may also like" rails under a product's actions
+const ProductRecommendations: React.FC<ProductRecommendationsProps> = ({ productId, enabled }) => {
+  const { openProduct } = useProductNavigation();
+
+  const { data: boughtTogether } = useQuery({
+    queryKey: ['/api/products', productId, 'bought-together'],
+    queryFn: () => productService.getBoughtTogether(productId),
+    enabled,
+  });
+  const { data: related } = useQuery({
+    queryKey: ['/api/products', productId, 'related'],
+    queryFn: () => productService.getRelatedProducts(productId),
+    enabled,
+  });
+
+  // Anything already in "also bought" would only repeat itself in the related rail
+  const alsoBought = boughtTogether?.products ?? [];
+  const similar = (related?.products ?? []).filter((product) => !alsoBought.some((item) => item.id === product.id));
+
+  if (alsoBought.length === 0 && similar.length === 0) return null;
+
+  return (
+    <div className="space-y-6 pt-6 border-t border-gray-200">
+      <ProductRail title="Customers also bought" products={alsoBought} onSelect={openProduct} />
+      <ProductRail title="You may also like" products={similar} onSelect={openProduct} />
+    </div>
+  );
+};
+
+export default ProductRecommendations;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { productService } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { paths, type ModalLocationState } from '../../utils/paths';
+import ProductDetail from './ProductDetail';
+import ProductsPage from './ProductsPage';
+import NotFound from '../Layout/NotFound';
+import type { Product } from '@shared/schema';
+
+type ProductLocationState = ModalLocationState & { product?: Product };
+
+// The product named in the URL: handed over by the page that opened it, or fetched by slug
+const useRouteProduct = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const state = useLocation().state as ProductLocationState | null;
+  const handedOver = state?.product?.slug === slug ? state?.product : undefined;
+
+  const { data, isError } = useQuery({
+    queryKey: ['/api/products', 'slug', slug],
+    queryFn: async () => {
+      const detail = await productService.getProduct(slug!);
+      // ProductDetail looks the same payload up by id
+      queryClient.setQueryData(['/api/products', detail.product.id], detail);
+      return detail;
+    },
+    enabled: !!slug && !handedOver,
+    retry: false,
+  });
+
+  return { product: handedOver ?? data?.product, isError, background: state?.backgroundLocation };
+};
+
+/**
+ * The product modal for /products/:slug. Over another page (opened from a
+ * grid) closing goes back to it; opened directly it returns to the catalog.
+ */
+export const ProductModalRoute: React.FC = () => {
+  const navigate = useNavigate();
+  const { product, background } = useRouteProduct();
+
+  if (!product) return null;
+
+  const handleClose = () => {
+    if (background) {
+      navigate(-1);
+    } else {
+      navigate(paths.products, { replace: true });
+    }
+  };
+
+  // Keyed so moving to a recommended product starts from a fresh image and quantity
+  return <ProductDetail key={product.id} product={product} isOpen onClose={handleClose} />;
+};
+
+// Deep links and refreshes land here: the catalog with the product open on top
+const ProductRoute: React.FC = () => {
+  const { isError } = useRouteProduct();
+
+  if (isError) return <NotFound />;
+
+  return (
+    <>
+      <ProductsPage />
+      <ProductModalRoute />
+    </>
+  );
+};
+
+export default ProductRoute;
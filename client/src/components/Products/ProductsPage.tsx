@@ -1,97 +1,174 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { Filter, Grid, List } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
-import { productService, categoryService } from '../../services/apiService';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Grid, List } from 'lucide-react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { RootState } from '../../store';
+import { productService, categoryService, type ProductQuery } from '../../services/apiService';
+import { categoryPath } from '../../utils/paths';
 import ProductGrid from './ProductGrid';
+import ProductFilters, { type ProductFilterState } from './ProductFilters';
+import CategoryBreadcrumbs from './CategoryBreadcrumbs';
+import type { ProductSort } from '@shared/schema';
 
-const ProductsPage: React.FC = () => {
+const PAGE_SIZE = 24;
+
+const sortLabels: Record<ProductSort, string> = {
+  relevance: 'Best Match',
+  newest: 'Latest',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  rating: 'Top Rated',
+  popularity: 'Most Reviewed',
+  discount: 'Biggest Discount',
+};
+
+interface ProductsPageProps {
+  // From /category/:slug; the listing covers every product without one
+  categorySlug?: string;
+}
+
+const ProductsPage: React.FC<ProductsPageProps> = ({ categorySlug }) => {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState<string>('');
-  const [sortBy, setSortBy] = useState<string>('latest');
-  
-  const { data: categoriesData, isLoading: categoriesLoading } = useQuery({
-    queryKey: ['/api/categories'],
-    queryFn: () => categoryService.getCategories(),
+  const navigate = useNavigate();
+  const [otherFilters, setOtherFilters] = useState<Omit<ProductFilterState, 'category'>>({});
+  // The Navbar search box writes here; results come from server-side search
+  const searchQuery = useSelector((state: RootState) => state.products.searchQuery);
+  const filters: ProductFilterState = { ...otherFilters, category: categorySlug };
+
+  // The category is part of the URL, so choosing one is a navigation
+  const handleFiltersChange = ({ category, ...rest }: ProductFilterState) => {
+    setOtherFilters(rest);
+    if (category !== categorySlug) {
+      navigate(categoryPath(category ?? null));
+    }
+  };
+
+  const { data: categoryData } = useQuery({
+    queryKey: ['/api/categories', categorySlug],
+    queryFn: () => categoryService.getCategory(categorySlug!),
+    enabled: !!categorySlug,
   });
+  const activeCategory = categorySlug ? categoryData?.category : undefined;
+  const [sortBy, setSortBy] = useState<ProductSort | undefined>(undefined);
+  
+  // Without an explicit choice the server sorts searches by relevance and everything else by newest
+  const effectiveSort = sortBy ?? (searchQuery ? 'relevance' : 'newest');
+  const sortOptions = (Object.keys(sortLabels) as ProductSort[])
+    .filter((sort) => sort !== 'relevance' || searchQuery);
 
-  const categories = categoriesData?.categories || [];
+  // Best Match is only offered while searching; drop it once the search is cleared
+  useEffect(() => {
+    if (!searchQuery) {
+      setSortBy((sort) => (sort === 'relevance' ? undefined : sort));
+    }
+  }, [searchQuery]);
+
+  const query: ProductQuery = {
+    ...filters,
+    search: searchQuery || undefined,
+    sort: sortBy === 'relevance' && !searchQuery ? undefined : sortBy,
+    limit: PAGE_SIZE,
+  };
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ['/api/products', query, 'infinite'],
+    // Facet counts don't change between pages, so only the first page asks for them
+    queryFn: ({ pageParam }) => productService.getProducts({ ...query, cursor: pageParam, facets: !pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep the last results and counts on screen while a new filter combination loads
+    placeholderData: (previous) => previous,
+  });
+  const products = data?.pages.flatMap((page) => page.products) ?? [];
+  const facets = data?.pages[0]?.facets;
+  const total = data?.pages[0]?.total ?? 0;
+  // Stable so the grid's infinite scroll observer isn't rebuilt every render
+  const loadMore = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
 
   return (
       <div className="min-h-screen bg-gray-50 pt-20">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Header */}
           <div className="mb-8">
-            <h1 className="text-4xl font-bold text-gray-900 mb-4">Our Products</h1>
-            <p className="text-xl text-gray-600">Discover our complete collection of premium furniture and decor</p>
-          </div>
-
-          {/* Filters and Controls */}
-          <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
-            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
-              {/* Category Filter */}
-              <div className="flex flex-wrap gap-2">
-                <button
-                  onClick={() => setSelectedCategory('all')}
-                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                    selectedCategory === 'all'
-                      ? 'bg-yellow-600 text-white'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  All Products
-                </button>
-                {!categoriesLoading && categories.map((category) => (
+            {activeCategory && categoryData && (
+              <div className="mb-3">
+                <CategoryBreadcrumbs
+                  crumbs={categoryData.breadcrumbs}
+                  onSelect={(slug) => navigate(categoryPath(slug))}
+                />
+              </div>
+            )}
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">{activeCategory?.name ?? 'Our Products'}</h1>
+            <p className="text-xl text-gray-600">
+              {activeCategory?.description || 'Discover our complete collection of premium furniture and decor'}
+            </p>
+            {categoryData && categoryData.children.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {categoryData.children.map((child) => (
                   <button
-                    key={category.id}
-                    onClick={() => setSelectedCategory(category.name)}
-                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                      selectedCategory === category.name
-                        ? 'bg-yellow-600 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
+                    key={child.id}
+                    onClick={() => navigate(categoryPath(child.slug))}
+                    className="px-4 py-2 rounded-full border border-gray-300 text-sm text-gray-700 hover:bg-white hover:border-yellow-500 transition-colors"
                   >
-                    {category.name}
+                    {child.name}
                   </button>
                 ))}
               </div>
+            )}
+          </div>
 
-              {/* Sort and View Controls */}
-              <div className="flex items-center space-x-4">
-                <select
-                  value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value)}
-                  className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
-                >
-                  <option value="latest">Latest</option>
-                  <option value="price">Price: Low to High</option>
-                  <option value="popularity">Most Popular</option>
-                </select>
+          {/* Sort and View Controls */}
+          <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+            <div className="flex items-center justify-end space-x-4">
+              <select
+                value={effectiveSort}
+                onChange={(e) => setSortBy(e.target.value as ProductSort)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {sortOptions.map((sort) => (
+                  <option key={sort} value={sort}>{sortLabels[sort]}</option>
+                ))}
+              </select>
 
-                <div className="flex border border-gray-300 rounded-lg overflow-hidden">
-                  <button
-                    onClick={() => setViewMode('grid')}
-                    className={`p-2 ${viewMode === 'grid' ? 'bg-yellow-600 text-white' : 'bg-white text-gray-600'}`}
-                  >
-                    <Grid className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={() => setViewMode('list')}
-                    className={`p-2 ${viewMode === 'list' ? 'bg-yellow-600 text-white' : 'bg-white text-gray-600'}`}
-                  >
-                    <List className="w-5 h-5" />
-                  </button>
-                </div>
+              <div className="flex border border-gray-300 rounded-lg overflow-hidden">
+                <button
+                  onClick={() => setViewMode('grid')}
+                  className={`p-2 ${viewMode === 'grid' ? 'bg-yellow-600 text-white' : 'bg-white text-gray-600'}`}
+                >
+                  <Grid className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setViewMode('list')}
+                  className={`p-2 ${viewMode === 'list' ? 'bg-yellow-600 text-white' : 'bg-white text-gray-600'}`}
+                >
+                  <List className="w-5 h-5" />
+                </button>
               </div>
             </div>
           </div>
 
-          {/* Products Grid */}
-          <ProductGrid 
-            category={selectedCategory === 'all' ? undefined : selectedCategory}
-            search={searchQuery || undefined}
-          />
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+            <div className="lg:col-span-1">
+              <ProductFilters filters={filters} facets={facets} onChange={handleFiltersChange} />
+            </div>
+
+            {/* Products Grid */}
+            <div className="lg:col-span-3">
+              <ProductGrid
+                products={products}
+                isLoading={isLoading}
+                pagination={{
+                  total,
+                  hasMore: !!hasNextPage,
+                  isLoadingMore: isFetchingNextPage,
+                  onLoadMore: loadMore,
+                }}
+              />
+            </div>
+          </div>
         </div>
       </div>
   );
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { ProductSpecs, SpecTemplateField } from '@shared/schema';
+
+interface SpecTableProps {
+  specs: ProductSpecs;
+  template: SpecTemplateField[];
+}
+
+const formatSpecValue = (value: string | number | boolean, unit?: string) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    const number = value.toLocaleString('en-IN');
+    return unit ? `${number} ${unit}` : number;
+  }
+  return value;
+};
+
+const dimensionKeys = ['widthCm', 'depthCm', 'heightCm'] as const;
+
+/**
+ * Specifications in the order the category template lists them. Width, depth
+ * and height are combined into a single W × D × H row when all three are known.
+ */
+const SpecTable: React.FC<SpecTableProps> = ({ specs, template }) => {
+  const hasAllDimensions = dimensionKeys.every((key) => specs[key] !== undefined);
+
+  const rows: { label: string; value: string }[] = [];
+  let dimensionsShown = false;
+  template.forEach((field) => {
+    const value = specs[field.key];
+    if (value === undefined) return;
+    if (hasAllDimensions && (dimensionKeys as readonly string[]).includes(field.key)) {
+      if (dimensionsShown) return;
+      dimensionsShown = true;
+      rows.push({
+        label: 'Dimensions (W × D × H)',
+        value: `${specs.widthCm} × ${specs.depthCm} × ${specs.heightCm} cm`,
+      });
+      return;
+    }
+    rows.push({ label: field.label, value: formatSpecValue(value, field.unit) });
+  });
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">Specifications</h2>
+      <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-b border-gray-200 last:border-b-0">
+              <th scope="row" className="text-left font-medium text-gray-600 bg-gray-50 px-4 py-2 w-1/2">
+                {row.label}
+              </th>
+              <td className="text-gray-900 px-4 py-2">{row.value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SpecTable;
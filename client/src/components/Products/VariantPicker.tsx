@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ProductVariant } from '@shared/schema';
+import { variantOptionGroups, findVariant } from '../../utils/variant';
+
+interface VariantPickerProps {
+  variants: ProductVariant[];
+  selected: Record<string, string>;
+  onChange: (selected: Record<string, string>) => void;
+}
+
+/**
+ * One row of choices per option (size, colour, fabric...). A value is disabled
+ * when no in-stock variant has it alongside the other options already chosen.
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, selected, onChange }) => {
+  const groups = variantOptionGroups(variants);
+
+  const isAvailable = (name: string, value: string) => {
+    const candidate = { ...selected, [name]: value };
+    return variants.some(
+      (variant) =>
+        variant.stock > 0 &&
+        Object.entries(candidate).every(([key, chosen]) => variant.options[key] === chosen)
+    );
+  };
+
+  const choose = (name: string, value: string) => {
+    const next = { ...selected, [name]: value };
+    // Drop choices that no longer combine with the new value
+    if (!findVariant(variants, next)) {
+      const fallback = variants.find((variant) => variant.options[name] === value && variant.stock > 0);
+      onChange(fallback ? { ...fallback.options } : { [name]: value });
+      return;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <div key={group.name}>
+          <p className="text-gray-700 font-medium mb-2">
+            <span className="capitalize">{group.name}</span>
+            {selected[group.name] && <span className="text-gray-500 font-normal">: {selected[group.name]}</span>}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {group.values.map((value) => {
+              const isSelected = selected[group.name] === value;
+              const available = isAvailable(group.name, value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => choose(group.name, value)}
+                  aria-pressed={isSelected}
+                  className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                    isSelected
+                      ? 'border-yellow-600 bg-yellow-50 text-yellow-700 ring-2 ring-yellow-200'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  } ${available ? '' : 'opacity-50 line-through'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
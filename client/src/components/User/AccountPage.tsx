@@ -1,11 +1,16 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Package, Heart, Settings, LogOut, Edit, Camera, ShoppingBag, Save, X } from 'lucide-react';
+import { User, Package, Heart, Settings, LogOut, Edit, Camera, ShoppingBag, Save, X, Download, MapPin } from 'lucide-react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
 import { logout, setUser } from '../../store/slices/authSlice';
-import { MockAuthService } from '../../utils/mockAuth';
+import { authService, historyService, HISTORY_QUERY_KEY } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { paths } from '../../utils/paths';
+import { AuthService } from '../../lib/auth';
 import OrdersPage from './OrdersPage';
+import AddressBook from './AddressBook';
 
 const AccountPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('profile');
@@ -17,12 +22,21 @@ const AccountPage: React.FC = () => {
     address: ''
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [verificationStatus, setVerificationStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [isExporting, setIsExporting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteConfirmText, setDeleteConfirmText] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+  const [isUpdatingHistory, setIsUpdatingHistory] = useState(false);
   const dispatch = useDispatch();
+  const navigate = useNavigate();
   const { user, isAuthenticated } = useSelector((state: RootState) => state.auth);
   const { items: wishlistItems } = useSelector((state: RootState) => state.wishlist);
   const { orders } = useSelector((state: RootState) => state.orders);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await AuthService.signOut();
     dispatch(logout());
   };
 
@@ -51,7 +65,7 @@ const AccountPage: React.FC = () => {
     
     setIsLoading(true);
     try {
-      const updatedUser = await MockAuthService.updateProfile(user.id, {
+      const { user: updatedUser } = await authService.updateProfile({
         fullName: profileForm.fullName,
         phone: profileForm.phone,
         address: profileForm.address
@@ -66,6 +80,70 @@ const AccountPage: React.FC = () => {
     }
   };
 
+  const handleRequestVerification = async () => {
+    setVerificationStatus('sending');
+    try {
+      await authService.requestEmailVerification();
+      setVerificationStatus('sent');
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+      setVerificationStatus('error');
+    }
+  };
+
+  const handleExportData = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await authService.exportAccountData();
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `interoo-account-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export account data:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleToggleHistoryPause = async () => {
+    if (!user) return;
+
+    setIsUpdatingHistory(true);
+    try {
+      const { paused } = await historyService.setPaused(!user.historyPaused);
+      dispatch(setUser({ ...user, historyPaused: paused }));
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    } catch (error) {
+      console.error('Failed to update history settings:', error);
+    } finally {
+      setIsUpdatingHistory(false);
+    }
+  };
+
+  const handleCancelDelete = () => {
+    setShowDeleteConfirm(false);
+    setDeleteConfirmText('');
+    setDeleteError('');
+  };
+
+  const handleDeleteAccount = async () => {
+    setIsDeleting(true);
+    setDeleteError('');
+    try {
+      await authService.deleteAccount(deleteConfirmText);
+      await AuthService.signOut();
+      dispatch(logout());
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete account');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setProfileForm(prev => ({
       ...prev,
@@ -90,6 +168,7 @@ const AccountPage: React.FC = () => {
     { id: 'orders', name: 'Orders', icon: Package },
     { id: 'orders-page', name: 'Order History', icon: ShoppingBag },
     { id: 'wishlist', name: 'Wishlist', icon: Heart },
+    { id: 'addresses', name: 'Addresses', icon: MapPin },
     { id: 'settings', name: 'Settings', icon: Settings },
   ];
 
@@ -222,6 +301,27 @@ const AccountPage: React.FC = () => {
                         readOnly
                         className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-gray-50"
                       />
+                      {user && !user.emailVerified && (
+                        <div className="mt-2 flex items-center justify-between text-sm">
+                          <span className="text-amber-700">
+                            {verificationStatus === 'sent'
+                              ? 'Verification link sent. Check your inbox.'
+                              : verificationStatus === 'error'
+                                ? 'Could not send the link. Please try again.'
+                                : 'Email not verified'}
+                          </span>
+                          {verificationStatus !== 'sent' && (
+                            <button
+                              type="button"
+                              onClick={handleRequestVerification}
+                              disabled={verificationStatus === 'sending'}
+                              className="text-yellow-600 hover:text-yellow-700 font-medium disabled:opacity-50"
+                            >
+                              {verificationStatus === 'sending' ? 'Sending...' : 'Send verification link'}
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">Phone Number</label>
@@ -380,6 +480,8 @@ const AccountPage: React.FC = () => {
                 </div>
               )}
 
+              {activeTab === 'addresses' && <AddressBook />}
+
               {activeTab === 'settings' && (
                 <div>
                   <h2 className="text-2xl font-bold text-gray-900 mb-6">Account Settings</h2>
@@ -413,15 +515,83 @@ const AccountPage: React.FC = () => {
                           <input type="checkbox" className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500" />
                           <span className="ml-3 text-gray-700">Share purchase history</span>
                         </label>
+                        <div>
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={user?.historyPaused ?? false}
+                              onChange={handleToggleHistoryPause}
+                              disabled={isUpdatingHistory}
+                              className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+                            />
+                            <span className="ml-3 text-gray-700">Pause browsing history</span>
+                          </label>
+                          <p className="ml-7 mt-1 text-sm text-gray-500">
+                            While paused, products you view aren't saved to your history.{' '}
+                            <button onClick={() => navigate(paths.history)} className="text-yellow-700 hover:text-yellow-800 font-medium">
+                              Manage history
+                            </button>
+                          </p>
+                        </div>
                       </div>
                     </div>
 
+                    <div className="border border-gray-200 rounded-lg p-6">
+                      <h3 className="font-semibold text-gray-900 mb-2">Your Data</h3>
+                      <p className="text-gray-600 mb-4">
+                        Download a copy of your profile, orders, payments, reviews, wishlist, cart and browsing history.
+                      </p>
+                      <button
+                        onClick={handleExportData}
+                        disabled={isExporting}
+                        className="flex items-center space-x-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Download className="w-4 h-4" />
+                        <span>{isExporting ? 'Preparing...' : 'Download My Data'}</span>
+                      </button>
+                    </div>
+
                     <div className="border border-red-200 rounded-lg p-6">
                       <h3 className="font-semibold text-red-900 mb-4">Danger Zone</h3>
                       <p className="text-red-600 mb-4">Once you delete your account, there is no going back.</p>
-                      <button className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors">
-                        Delete Account
-                      </button>
+                      {showDeleteConfirm ? (
+                        <div className="space-y-4">
+                          <p className="text-sm text-gray-700">
+                            Your profile, reviews, wishlist, cart and browsing history will be permanently deleted. Past orders are
+                            kept for our tax records but will no longer be linked to you. Type <strong>DELETE</strong> to confirm.
+                          </p>
+                          <input
+                            type="text"
+                            value={deleteConfirmText}
+                            onChange={(e) => setDeleteConfirmText(e.target.value)}
+                            placeholder="DELETE"
+                            className="w-full px-3 py-2 border border-red-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                          />
+                          {deleteError && <p className="text-sm text-red-600">{deleteError}</p>}
+                          <div className="flex space-x-3">
+                            <button
+                              onClick={handleDeleteAccount}
+                              disabled={deleteConfirmText !== 'DELETE' || isDeleting}
+                              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              {isDeleting ? 'Deleting...' : 'Permanently Delete'}
+                            </button>
+                            <button
+                              onClick={handleCancelDelete}
+                              className="border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setShowDeleteConfirm(true)}
+                          className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+                        >
+                          Delete Account
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MapPin, Plus, Edit, Trash2, Star, Save, X } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addressService, type AddressInput } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { formatStreet } from '../../utils/address';
+import type { Address } from '@shared/schema';
+
+export const ADDRESSES_QUERY_KEY = ['/api/me/addresses'];
+
+const addressSchema = z.object({
+  label: z.string().min(1, 'Label is required'),
+  fullName: z.string().min(2, 'Full name is required'),
+  phone: z.string().regex(/^[6-9]\d{9}$/, 'Enter a valid 10-digit mobile number'),
+  line1: z.string().min(3, 'Address is required'),
+  line2: z.string().optional(),
+  landmark: z.string().optional(),
+  city: z.string().min(2, 'City is required'),
+  state: z.string().min(2, 'State is required'),
+  pincode: z.string().regex(/^[1-9]\d{5}$/, 'Enter a valid 6-digit PIN code'),
+  isDefault: z.boolean().optional(),
+});
+
+type AddressFormData = z.infer<typeof addressSchema>;
+
+const labels = ['Home', 'Work', 'Other'];
+
+interface AddressFormProps {
+  address?: Address;
+  onSaved: (address: Address) => void;
+  onCancel: () => void;
+}
+
+export const AddressForm: React.FC<AddressFormProps> = ({ address, onSaved, onCancel }) => {
+  const [error, setError] = useState('');
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<AddressFormData>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: {
+      label: address?.label ?? 'Home',
+      fullName: address?.fullName ?? '',
+      phone: address?.phone ?? '',
+      line1: address?.line1 ?? '',
+      line2: address?.line2 ?? '',
+      landmark: address?.landmark ?? '',
+      city: address?.city ?? '',
+      state: address?.state ?? '',
+      pincode: address?.pincode ?? '',
+      isDefault: address?.isDefault ?? false,
+    },
+  });
+
+  const onSubmit = async (data: AddressFormData) => {
+    setError('');
+    const payload: AddressInput = {
+      ...data,
+      line2: data.line2 || null,
+      landmark: data.landmark || null,
+    };
+    try {
+      const result = address
+        ? await addressService.updateAddress(address.id, payload)
+        : await addressService.createAddress(payload);
+      await queryClient.invalidateQueries({ queryKey: ADDRESSES_QUERY_KEY });
+      onSaved(result.address);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save address');
+    }
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 ${
+      hasError ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-yellow-500'
+    }`;
+
+  const field = (name: keyof AddressFormData, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input {...register(name)} type="text" placeholder={placeholder} className={inputClass(!!errors[name])} />
+      {errors[name] && <p className="mt-1 text-sm text-red-600">{errors[name]?.message}</p>}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="border border-gray-200 rounded-lg p-6 space-y-4">
+      <div className="flex space-x-2">
+        {labels.map((label) => (
+          <label key={label} className="cursor-pointer">
+            <input {...register('label')} type="radio" value={label} className="peer sr-only" />
+            <span className="px-3 py-1 rounded-full border border-gray-300 text-sm text-gray-700 peer-checked:bg-yellow-100 peer-checked:border-yellow-500">
+              {label}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {field('fullName', 'Full Name *')}
+        {field('phone', 'Mobile Number *', '10-digit mobile number')}
+      </div>
+      {field('line1', 'Flat, House no., Building *')}
+      {field('line2', 'Area, Street, Sector')}
+      {field('landmark', 'Landmark', 'E.g. near Apollo Hospital')}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {field('city', 'City *')}
+        {field('state', 'State *')}
+        {field('pincode', 'PIN Code *')}
+      </div>
+
+      <label className="flex items-center">
+        <input {...register('isDefault')} type="checkbox" className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500" />
+        <span className="ml-3 text-gray-700">Make this my default address</span>
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center space-x-2 bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSubmitting ? 'Saving...' : 'Save Address'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const AddressBook: React.FC = () => {
+  const [editing, setEditing] = useState<Address | 'new' | null>(null);
+  const { data, isLoading } = useQuery({
+    queryKey: ADDRESSES_QUERY_KEY,
+    queryFn: () => addressService.getAddresses(),
+  });
+  const addresses = data?.addresses || [];
+
+  const handleDelete = async (address: Address) => {
+    if (!window.confirm(`Delete the "${address.label}" address?`)) return;
+    try {
+      await addressService.deleteAddress(address.id);
+      await queryClient.invalidateQueries({ queryKey: ADDRESSES_QUERY_KEY });
+    } catch (error) {
+      console.error('Failed to delete address:', error);
+    }
+  };
+
+  const handleSetDefault = async (address: Address) => {
+    try {
+      await addressService.updateAddress(address.id, { isDefault: true });
+      await queryClient.invalidateQueries({ queryKey: ADDRESSES_QUERY_KEY });
+    } catch (error) {
+      console.error('Failed to set default address:', error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Saved Addresses</h2>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center space-x-2 bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Address</span>
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="mb-6">
+          <AddressForm
+            address={editing === 'new' ? undefined : editing}
+            onSaved={() => setEditing(null)}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-600">Loading addresses...</p>
+      ) : addresses.length === 0 && editing === null ? (
+        <div className="text-center py-12">
+          <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">No saved addresses yet. Add one to check out faster.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {addresses.map((address) => (
+            <motion.div
+              key={address.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`border rounded-lg p-4 ${address.isDefault ? 'border-yellow-500 bg-yellow-50' : 'border-gray-200'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-gray-900">{address.label}</span>
+                {address.isDefault && (
+                  <span className="text-xs bg-yellow-600 text-white px-2 py-0.5 rounded-full">Default</span>
+                )}
+              </div>
+              <p className="text-gray-900">{address.fullName}</p>
+              <p className="text-sm text-gray-600">{formatStreet(address)}</p>
+              <p className="text-sm text-gray-600">
+                {address.city}, {address.state} - {address.pincode}
+              </p>
+              <p className="text-sm text-gray-600 mb-4">Phone: {address.phone}</p>
+              <div className="flex space-x-4 text-sm">
+                <button
+                  onClick={() => setEditing(address)}
+                  className="flex items-center space-x-1 text-yellow-600 hover:text-yellow-700"
+                >
+                  <Edit className="w-4 h-4" />
+                  <span>Edit</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(address)}
+                  className="flex items-center space-x-1 text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete</span>
+                </button>
+                {!address.isDefault && (
+                  <button
+                    onClick={() => handleSetDefault(address)}
+                    className="flex items-center space-x-1 text-gray-600 hover:text-gray-900"
+                  >
+                    <Star className="w-4 h-4" />
+                    <span>Set as default</span>
+                  </button>
+                )}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddressBook;
@@ -1,22 +1,56 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Eye, ShoppingCart } from 'lucide-react';
+import { Clock, Eye, ShoppingCart, X, PauseCircle } from 'lucide-react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { RootState } from '../../store';
 import { addToCart } from '../../store/slices/cartSlice';
-import { clearHistory } from '../../store/slices/historySlice';
+import { clearHistory, removeFromHistory } from '../../store/slices/historySlice';
+import { historyService, HISTORY_QUERY_KEY } from '../../services/apiService';
+import { queryClient } from '../../lib/queryClient';
+import { useProductNavigation } from '../../hooks/useProductNavigation';
+import { paths } from '../../utils/paths';
+import ProductImage from '../Products/ProductImage';
+import type { Product } from '@shared/schema';
+
+const refreshHistory = () => {
+  queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+  queryClient.invalidateQueries({ queryKey: ['/api/personalization/home'] });
+};
 
 const HistoryPage: React.FC = () => {
   const dispatch = useDispatch();
-  const { items } = useSelector((state: RootState) => state.history);
+  const navigate = useNavigate();
+  const { openProduct } = useProductNavigation();
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
 
-  const handleAddToCart = (product: any) => {
-    dispatch(addToCart(product));
-  };
+  const { data, isLoading } = useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: () => historyService.getHistory(),
+    enabled: isAuthenticated,
+  });
+  const items = data?.items ?? [];
+
+  const removeItem = useMutation({
+    mutationFn: (productId: string) => historyService.removeItem(productId),
+    onSuccess: (_data, productId) => {
+      dispatch(removeFromHistory(productId));
+      refreshHistory();
+    },
+  });
+
+  const clearAll = useMutation({
+    mutationFn: () => historyService.clearHistory(),
+    onSuccess: () => {
+      // This session's views would otherwise keep feeding the home page
+      dispatch(clearHistory());
+      refreshHistory();
+    },
+  });
 
-  const handleClearHistory = () => {
-    dispatch(clearHistory());
+  const handleAddToCart = (product: Product) => {
+    dispatch(addToCart(product));
   };
 
   if (!isAuthenticated) {
@@ -25,7 +59,7 @@ const HistoryPage: React.FC = () => {
         <div className="text-center">
           <Clock className="w-24 h-24 text-gray-300 mx-auto mb-4" />
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Sign in to view your history</h2>
-          <p className="text-gray-600">Track the products you've viewed</p>
+          <p className="text-gray-600">Products you view in this browser are added to your account when you sign in</p>
         </div>
       </div>
     );
@@ -45,15 +79,33 @@ const HistoryPage: React.FC = () => {
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              onClick={handleClearHistory}
-              className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl font-semibold transition-colors"
+              onClick={() => clearAll.mutate()}
+              disabled={clearAll.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-xl font-semibold transition-colors disabled:opacity-50"
             >
-              Clear History
+              {clearAll.isPending ? 'Clearing...' : 'Clear History'}
             </motion.button>
           )}
         </div>
 
-        {items.length === 0 ? (
+        {data?.paused && (
+          <div className="flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-8">
+            <div className="flex items-center space-x-3">
+              <PauseCircle className="w-5 h-5 text-yellow-700" />
+              <p className="text-yellow-800">History is paused. Products you view aren't being added.</p>
+            </div>
+            <button
+              onClick={() => navigate(paths.account)}
+              className="text-yellow-800 font-semibold hover:text-yellow-900 transition-colors"
+            >
+              Change in settings
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-12 text-gray-600">Loading your history...</div>
+        ) : items.length === 0 ? (
           <div className="text-center py-12">
             <Clock className="w-24 h-24 text-gray-300 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-gray-900 mb-2">No viewing history</h3>
@@ -61,6 +113,7 @@ const HistoryPage: React.FC = () => {
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
+              onClick={() => navigate(paths.products)}
               className="bg-yellow-600 hover:bg-yellow-700 text-white px-8 py-3 rounded-xl font-semibold transition-colors"
             >
               Browse Products
@@ -68,36 +121,45 @@ const HistoryPage: React.FC = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {items.map((product, index) => (
+            {items.map(({ product, viewedAt }, index) => (
               <motion.div
-                key={`${product.id}-${index}`}
+                key={product.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.5, delay: index * 0.1 }}
+                transition={{ duration: 0.5, delay: Math.min(index, 8) * 0.1 }}
                 className="bg-white rounded-xl overflow-hidden shadow-sm hover:shadow-lg transition-shadow duration-300 group"
               >
-                <div className="relative overflow-hidden">
-                  <img
-                    src={product.images[0]}
+                <div className="relative overflow-hidden h-64">
+                  <ProductImage
+                    src={product.images?.[0]}
                     alt={product.name}
+                    assets={product.imageAssets}
+                    sizes="(min-width: 1280px) 25vw, (min-width: 768px) 50vw, 100vw"
                     className="w-full h-64 object-cover group-hover:scale-105 transition-transform duration-300"
                   />
-                  <div className="absolute top-4 right-4">
+                  <div className="absolute top-4 left-4">
                     <div className="bg-black/50 text-white px-2 py-1 rounded-full text-xs">
-                      Viewed recently
+                      Viewed {new Date(viewedAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
                     </div>
                   </div>
+                  <button
+                    onClick={() => removeItem.mutate(product.id)}
+                    aria-label={`Remove ${product.name} from history`}
+                    className="absolute top-4 right-4 bg-white/90 p-2 rounded-full hover:bg-white transition-colors shadow"
+                  >
+                    <X className="w-4 h-4 text-gray-600" />
+                  </button>
                 </div>
 
                 <div className="p-6">
                   <h3 className="text-xl font-semibold text-gray-900 mb-2">{product.name}</h3>
                   <p className="text-gray-600 mb-4 line-clamp-2">{product.description}</p>
-                  
+
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center space-x-2">
-                      <span className="text-2xl font-bold text-gray-900">₹{product.price.toLocaleString('en-IN')}</span>
+                      <span className="text-2xl font-bold text-gray-900">₹{Number(product.price).toLocaleString('en-IN')}</span>
                       {product.originalPrice && (
-                        <span className="text-lg text-gray-500 line-through">₹{product.originalPrice.toLocaleString('en-IN')}</span>
+                        <span className="text-lg text-gray-500 line-through">₹{Number(product.originalPrice).toLocaleString('en-IN')}</span>
                       )}
                     </div>
                   </div>
@@ -115,6 +177,7 @@ const HistoryPage: React.FC = () => {
                     <motion.button
                       whileHover={{ scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
+                      onClick={() => openProduct(product)}
                       className="p-3 border border-gray-300 rounded-xl hover:border-gray-400 transition-colors"
                     >
                       <Eye className="w-5 h-5 text-gray-600" />
@@ -130,4 +193,4 @@ const HistoryPage: React.FC = () => {
   );
 };
 
-export default HistoryPage;
\ No newline at end of file
+export default HistoryPage;
@@ -2,9 +2,12 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Package, Truck, CheckCircle, Clock, Eye, RotateCcw } from 'lucide-react';
 import { useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 import { RootState } from '../../store';
+import { paths } from '../../utils/paths';
 
 const OrdersPage: React.FC = () => {
+  const navigate = useNavigate();
   const { orders } = useSelector((state: RootState) => state.orders);
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
 
@@ -158,6 +161,7 @@ const OrdersPage: React.FC = () => {
                     <motion.button
                       whileHover={{ scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
+                      onClick={() => navigate(paths.order(order.id))}
                       className="flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                     >
                       <Eye className="w-4 h-4" />
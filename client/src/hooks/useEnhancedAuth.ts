@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { AuthService, AuthUser, SessionManager } from '../lib/auth';
+import { AuthService, AuthUser, LegacyAccounts, SessionManager } from '../lib/auth';
 
 export interface UseEnhancedAuthReturn {
   user: AuthUser | null;
@@ -30,11 +30,17 @@ export const useEnhancedAuth = (): UseEnhancedAuthReturn => {
   useEffect(() => {
     const initializeAuth = async () => {
       try {
-        const currentUser = AuthService.getCurrentUser();
-        if (currentUser) {
-          setUser(currentUser);
-          setSessionExpiry(SessionManager.getSessionExpiry());
+        LegacyAccounts.migrate();
+
+        // Show the cached user straight away, then confirm with the server
+        const cachedUser = AuthService.getCurrentUser();
+        if (cachedUser) {
+          setUser(cachedUser);
         }
+
+        const currentUser = await AuthService.restoreSession();
+        setUser(currentUser);
+        setSessionExpiry(currentUser ? SessionManager.getSessionExpiry() : null);
       } catch (err) {
         console.error('Auth initialization error:', err);
         setError('Failed to initialize authentication');
@@ -179,9 +185,10 @@ export const useEnhancedAuth = (): UseEnhancedAuthReturn => {
       setSessionExpiry(SessionManager.getSessionExpiry());
     } catch (err) {
       console.error('Session refresh error:', err);
-      setError('Failed to refresh session');
+      await handleSignOut();
+      setError('Your session has expired. Please sign in again.');
     }
-  }, []);
+  }, [handleSignOut]);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '../store';
+import { clearHistory } from '../store/slices/historySlice';
+import { historyService, HISTORY_QUERY_KEY } from '../services/apiService';
+import { queryClient } from '../lib/queryClient';
+import { GuestHistory } from '../lib/guestHistory';
+
+/**
+ * On sign-in, hands the products viewed as a guest over to the account's
+ * history and forgets them in this browser. Paused accounts discard them.
+ */
+export const useGuestHistorySync = () => {
+  const dispatch = useDispatch();
+  const userId = useSelector((state: RootState) => state.auth.user?.id);
+
+  useEffect(() => {
+    if (!userId) return;
+    const entries = GuestHistory.load();
+    if (entries.length === 0) return;
+
+    const items = entries.map((entry) => ({ productId: entry.product.id, viewedAt: entry.viewedAt }));
+    historyService.mergeGuestHistory(items)
+      .then(() => {
+        GuestHistory.clear();
+        dispatch(clearHistory());
+        queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: ['/api/personalization/home'] });
+      })
+      // Kept for the next sign-in if the merge didn't go through
+      .catch(() => {});
+  }, [userId, dispatch]);
+};
@@ -0,0 +1,21 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import type { Product } from '@shared/schema';
+import { paths, type ModalLocationState } from '../utils/paths';
+
+/**
+ * Opening a product keeps the current page behind its modal, while the URL
+ * changes to /products/<slug> so it can be shared, refreshed and closed with Back.
+ */
+export const useProductNavigation = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Already over a background page (e.g. moving between related products): keep that one
+  const background = (location.state as ModalLocationState | null)?.backgroundLocation ?? location;
+
+  return {
+    openProduct: (product: Product) =>
+      navigate(paths.product(product.slug), { state: { backgroundLocation: background, product } }),
+    buyNow: (product: Product) =>
+      navigate(paths.buyNow(product.slug), { state: { product } }),
+  };
+};
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { authService, type SessionInfo } from '../services/apiService';
+import type { User } from '@shared/schema';
 
 // =============================================
 // TYPE DEFINITIONS
@@ -16,9 +18,11 @@ export interface AuthUser {
   updated_at: string;
 }
 
+export type AuthErrorCode = 'legacy_account';
+
 export interface AuthResult {
   user?: AuthUser;
-  error?: { message: string };
+  error?: { message: string; code?: AuthErrorCode };
 }
 
 export interface SignUpData {
@@ -28,6 +32,26 @@ export interface SignUpData {
   phone?: string;
 }
 
+type ServerUser = Omit<User, 'password'>;
+
+const toIsoString = (value: Date | string | null | undefined): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+export function toAuthUser(user: ServerUser): AuthUser {
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    full_name: user.fullName ?? undefined,
+    avatar_url: user.avatarUrl ?? undefined,
+    phone: user.phone ?? undefined,
+    address: user.address,
+    email_verified: !!user.emailVerified,
+    last_login: toIsoString(user.lastLogin),
+    created_at: toIsoString(user.createdAt) ?? new Date().toISOString(),
+    updated_at: toIsoString(user.updatedAt) ?? new Date().toISOString(),
+  };
+}
+
 // =============================================
 // VALIDATION SCHEMAS
 // =============================================
@@ -81,61 +105,16 @@ export class AuthService {
    */
   static async signIn(email: string, password: string, rememberMe?: boolean): Promise<AuthResult> {
     try {
-      // Mock authentication for development
-      if (email === 'test@example.com' && password === 'password123') {
-        const mockUser: AuthUser = {
-          id: 'test-user-id',
-          email: email,
-          full_name: 'Test User',
-          avatar_url: 'https://images.pexels.com/photos/1043471/pexels-photo-1043471.jpeg?auto=compress&cs=tinysrgb&w=100',
-          phone: '+1234567890',
-          email_verified: true,
-          last_login: new Date().toISOString(),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-
-        // Store user session
-        if (rememberMe) {
-          localStorage.setItem(this.STORAGE_KEY, JSON.stringify(mockUser));
-        } else {
-          sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(mockUser));
-        }
-
-        return { user: mockUser };
-      }
-
-      // For other emails, try to authenticate with stored users
-      const storedUsers = this.getStoredUsers();
-      const user = storedUsers.find(u => u.email === email && u.password === password);
-      
-      if (user) {
-        const authUser: AuthUser = {
-          id: user.id,
-          email: user.email,
-          full_name: user.fullName,
-          avatar_url: user.avatar,
-          phone: user.phone,
-          email_verified: true,
-          last_login: new Date().toISOString(),
-          created_at: user.createdAt,
-          updated_at: new Date().toISOString(),
-        };
-
-        // Store user session
-        if (rememberMe) {
-          localStorage.setItem(this.STORAGE_KEY, JSON.stringify(authUser));
-        } else {
-          sessionStorage.setItem(this.STORAGE_KEY, JSON.stringify(authUser));
-        }
-
-        return { user: authUser };
-      }
-
-      return { error: { message: 'Invalid email or password' } };
+      const { user, session } = await authService.login(email, password, rememberMe);
+      LegacyAccounts.forget(email);
+      SessionManager.setSession(session);
+      return { user: this.cacheUser(toAuthUser(user), !!rememberMe) };
     } catch (error) {
+      if (LegacyAccounts.has(email)) {
+        return { error: { message: LegacyAccounts.MESSAGE, code: 'legacy_account' } };
+      }
       console.error('Sign in error:', error);
-      return { error: { message: 'An unexpected error occurred during sign in' } };
+      return { error: { message: error instanceof Error ? error.message : 'Invalid email or password' } };
     }
   }
 
@@ -144,49 +123,18 @@ export class AuthService {
    */
   static async signUp(data: SignUpData): Promise<AuthResult> {
     try {
-      // Check if user already exists
-      const storedUsers = this.getStoredUsers();
-      const existingUser = storedUsers.find(u => u.email === data.email);
-      
-      if (existingUser) {
-        return { error: { message: 'User with this email already exists' } };
-      }
-
-      // Create new user
-      const newUser = {
-        id: `user_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      const { user, session } = await authService.register({
         email: data.email,
-        password: data.password, // In production, this would be hashed
-        fullName: data.fullName || '',
-        phone: data.phone || '',
-        avatar: 'https://images.pexels.com/photos/1043471/pexels-photo-1043471.jpeg?auto=compress&cs=tinysrgb&w=100',
-        createdAt: new Date().toISOString(),
-      };
-
-      // Store user
-      storedUsers.push(newUser);
-      this.saveUsers(storedUsers);
-
-      // Create auth user object
-      const authUser: AuthUser = {
-        id: newUser.id,
-        email: newUser.email,
-        full_name: newUser.fullName,
-        avatar_url: newUser.avatar,
-        phone: newUser.phone,
-        email_verified: true,
-        last_login: new Date().toISOString(),
-        created_at: newUser.createdAt,
-        updated_at: new Date().toISOString(),
-      };
-
-      // Auto-login after registration
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(authUser));
-
-      return { user: authUser };
+        password: data.password,
+        fullName: data.fullName,
+        phone: data.phone,
+      });
+      LegacyAccounts.forget(data.email);
+      SessionManager.setSession(session);
+      return { user: this.cacheUser(toAuthUser(user), true) };
     } catch (error) {
       console.error('Sign up error:', error);
-      return { error: { message: 'An unexpected error occurred during registration' } };
+      return { error: { message: error instanceof Error ? error.message : 'An unexpected error occurred during registration' } };
     }
   }
 
@@ -194,12 +142,17 @@ export class AuthService {
    * Sign out
    */
   static async signOut(): Promise<void> {
-    localStorage.removeItem(this.STORAGE_KEY);
-    sessionStorage.removeItem(this.STORAGE_KEY);
+    try {
+      await authService.logout();
+    } catch (error) {
+      console.error('Sign out error:', error);
+    }
+    this.clearCachedUser();
+    SessionManager.clear();
   }
 
   /**
-   * Get current user
+   * Get current user from the local cache of the last server response
    */
   static getCurrentUser(): AuthUser | null {
     try {
@@ -210,6 +163,22 @@ export class AuthService {
     }
   }
 
+  /**
+   * Ask the server who is signed in and refresh the local cache to match
+   */
+  static async restoreSession(): Promise<AuthUser | null> {
+    try {
+      const { user, session } = await authService.getSession();
+      SessionManager.setSession(session);
+      const persistent = localStorage.getItem(this.STORAGE_KEY) !== null;
+      return this.cacheUser(toAuthUser(user), persistent);
+    } catch {
+      this.clearCachedUser();
+      SessionManager.clear();
+      return null;
+    }
+  }
+
   /**
    * Update user profile
    */
@@ -220,24 +189,15 @@ export class AuthService {
         return { error: { message: 'No user signed in' } };
       }
 
-      const updatedUser = { ...currentUser, ...updates, updated_at: new Date().toISOString() };
-      
-      // Update stored user data
-      const storedUsers = this.getStoredUsers();
-      const userIndex = storedUsers.findIndex(u => u.id === currentUser.id);
-      if (userIndex !== -1) {
-        storedUsers[userIndex] = {
-          ...storedUsers[userIndex],
-          fullName: updates.full_name || storedUsers[userIndex].fullName,
-          phone: updates.phone || storedUsers[userIndex].phone,
-        };
-        this.saveUsers(storedUsers);
-      }
-
-      // Update session
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(updatedUser));
+      const { user } = await authService.updateProfile({
+        fullName: updates.full_name,
+        phone: updates.phone,
+        avatarUrl: updates.avatar_url,
+        address: updates.address,
+      });
+      const persistent = localStorage.getItem(this.STORAGE_KEY) !== null;
 
-      return { user: updatedUser };
+      return { user: this.cacheUser(toAuthUser(user), persistent) };
     } catch (error) {
       console.error('Update profile error:', error);
       return { error: { message: 'Failed to update profile' } };
@@ -249,31 +209,104 @@ export class AuthService {
    */
   static async resetPassword(email: string): Promise<{ error?: { message: string } }> {
     try {
-      // Mock password reset
-      console.log('Password reset requested for:', email);
+      await authService.requestPasswordReset(email);
       return {};
     } catch (error) {
       return { error: { message: 'Failed to send password reset email' } };
     }
   }
 
+  /**
+   * Choose a new password using the token from a reset link
+   */
+  static async confirmPasswordReset(token: string, password: string): Promise<{ error?: { message: string } }> {
+    try {
+      await authService.confirmPasswordReset(token, password);
+      this.clearCachedUser();
+      SessionManager.clear();
+      return {};
+    } catch (error) {
+      return { error: { message: error instanceof Error ? error.message : 'Failed to reset password' } };
+    }
+  }
+
   // =============================================
   // PRIVATE HELPER METHODS
   // =============================================
-  private static getStoredUsers(): any[] {
+  private static cacheUser(user: AuthUser, persistent: boolean): AuthUser {
+    this.clearCachedUser();
+    const storage = persistent ? localStorage : sessionStorage;
+    storage.setItem(this.STORAGE_KEY, JSON.stringify(user));
+    return user;
+  }
+
+  private static clearCachedUser(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    sessionStorage.removeItem(this.STORAGE_KEY);
+  }
+}
+
+// =============================================
+// LEGACY ACCOUNT MIGRATION
+// =============================================
+/**
+ * Accounts used to live only in this browser's localStorage, passwords
+ * included. Those accounts never reached the server, so their owners have to
+ * register again (or reset, if they since registered on another device).
+ */
+export class LegacyAccounts {
+  private static readonly LEGACY_USERS_KEY = 'interoo_users';
+  private static readonly LEGACY_CURRENT_USER_KEY = 'interoo_current_user';
+  private static readonly PENDING_KEY = 'interoo_legacy_emails';
+
+  static readonly MESSAGE =
+    'Your account was created before we moved sign-in to our servers. Please create your account again with the same email, or reset your password.';
+
+  /**
+   * Remove the old plaintext records, keeping only the emails that still need
+   * to re-register. Safe to call on every start-up.
+   */
+  static migrate(): string[] {
     try {
-      const users = localStorage.getItem('interoo_users');
-      return users ? JSON.parse(users) : [];
+      const raw = localStorage.getItem(this.LEGACY_USERS_KEY);
+      if (raw) {
+        const legacyUsers: Array<{ email?: string }> = JSON.parse(raw);
+        const emails = legacyUsers
+          .map(u => u.email?.toLowerCase())
+          .filter((email): email is string => !!email);
+        this.savePending(Array.from(new Set([...this.getPendingEmails(), ...emails])));
+      }
+    } catch (error) {
+      console.error('Failed to read legacy accounts:', error);
+    }
+
+    localStorage.removeItem(this.LEGACY_USERS_KEY);
+    localStorage.removeItem(this.LEGACY_CURRENT_USER_KEY);
+    return this.getPendingEmails();
+  }
+
+  static getPendingEmails(): string[] {
+    try {
+      const emails = localStorage.getItem(this.PENDING_KEY);
+      return emails ? JSON.parse(emails) : [];
     } catch {
       return [];
     }
   }
 
-  private static saveUsers(users: any[]): void {
-    try {
-      localStorage.setItem('interoo_users', JSON.stringify(users));
-    } catch (error) {
-      console.error('Failed to save users:', error);
+  static has(email: string): boolean {
+    return this.getPendingEmails().includes(email.toLowerCase());
+  }
+
+  static forget(email: string): void {
+    this.savePending(this.getPendingEmails().filter(e => e !== email.toLowerCase()));
+  }
+
+  private static savePending(emails: string[]): void {
+    if (emails.length > 0) {
+      localStorage.setItem(this.PENDING_KEY, JSON.stringify(emails));
+    } else {
+      localStorage.removeItem(this.PENDING_KEY);
     }
   }
 }
@@ -282,14 +315,27 @@ export class AuthService {
 // SESSION MANAGEMENT
 // =============================================
 export class SessionManager {
-  private static readonly SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+  private static readonly EXPIRY_KEY = 'interoo_session_expiry';
   private static readonly REFRESH_THRESHOLD = 5 * 60 * 1000; // 5 minutes
 
+  /**
+   * Store the expiry issued by the server for the current session cookie
+   */
+  static setSession(session?: SessionInfo | null): void {
+    if (session?.expiresAt) {
+      localStorage.setItem(this.EXPIRY_KEY, session.expiresAt);
+    } else {
+      localStorage.removeItem(this.EXPIRY_KEY);
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.EXPIRY_KEY);
+  }
+
   static getSessionExpiry(): Date | null {
-    const user = AuthService.getCurrentUser();
-    if (!user || !user.last_login) return null;
-    
-    return new Date(new Date(user.last_login).getTime() + this.SESSION_DURATION);
+    const expiresAt = localStorage.getItem(this.EXPIRY_KEY);
+    return expiresAt ? new Date(expiresAt) : null;
   }
 
   static isSessionExpiring(): boolean {
@@ -300,11 +346,16 @@ export class SessionManager {
     return timeUntilExpiry <= this.REFRESH_THRESHOLD;
   }
 
+  /**
+   * Ask the server to extend the session; throws if the session is gone
+   */
   static async refreshSession(): Promise<void> {
-    const user = AuthService.getCurrentUser();
-    if (user) {
-      const updatedUser = { ...user, last_login: new Date().toISOString() };
-      localStorage.setItem(AuthService['STORAGE_KEY'], JSON.stringify(updatedUser));
+    try {
+      const { session } = await authService.refreshSession();
+      this.setSession(session);
+    } catch (error) {
+      this.clear();
+      throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import type { HistoryEntry } from '../store/slices/historySlice';
+
+/**
+ * Products a signed-out shopper has viewed, kept in this browser until they
+ * sign in and it is merged into their account's history.
+ */
+export class GuestHistory {
+  private static readonly STORAGE_KEY = 'interoo_guest_history';
+
+  static load(): HistoryEntry[] {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      const entries = raw ? JSON.parse(raw) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static save(entries: HistoryEntry[]): void {
+    if (entries.length > 0) {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
@@ -11,6 +11,31 @@ export const queryClient = new QueryClient({
 
 const API_BASE_URL = '/api';
 
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+async function errorFromResponse(response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+
+  // Rate limited: tell the user how long to wait instead of a bare 429
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After') ?? errorData.retryAfter);
+    const message: string = errorData.error || 'Too many requests';
+    if (retryAfter > 0) {
+      const [reason] = message.split('.');
+      return new Error(`${reason}. Please try again in ${formatWait(retryAfter)}.`);
+    }
+    return new Error(message);
+  }
+
+  return new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+}
+
 export async function apiRequest<T = any>(
   endpoint: string,
   options: RequestInit = {}
@@ -32,8 +57,7 @@ export async function apiRequest<T = any>(
   const response = await fetch(url, config);
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    throw await errorFromResponse(response);
   }
 
   return await response.json();
@@ -43,8 +67,7 @@ export const fetcher = async <T = any>(url: string): Promise<T> => {
   const response = await fetch(`${API_BASE_URL}${url}`);
   
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    throw await errorFromResponse(response);
   }
   
   return await response.json();
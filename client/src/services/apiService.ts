@@ -2,12 +2,27 @@ import { apiRequest, fetcher } from '../lib/queryClient';
 import type { 
   User, 
   InsertUser,
+  Address,
+  InsertAddress,
+  RoomProfile,
+  InsertRoomProfile,
   Product, 
+  ProductVariant,
+  SpecTemplateField,
+  SearchSuggestions,
+  ProductFacets,
+  ProductPage,
+  ProductSort,
   InsertProduct,
+  HomeRail,
+  ViewedProduct,
   Category, 
+  CategoryCrumb,
+  CategoryNode,
   InsertCategory,
   Order, 
   InsertOrder,
+  OrderItem,
   CartItem, 
   InsertCartItem,
   WishlistItem, 
@@ -20,51 +35,172 @@ import type {
   InsertTransactionEvent
 } from '@shared/schema';
 
+// Server-issued session metadata returned by the auth endpoints
+export interface SessionInfo {
+  expiresAt: string | null;
+}
+
 // Authentication services
 export const authService = {
   async register(userData: InsertUser) {
-    return apiRequest<{ user: User }>('/auth/register', {
+    return apiRequest<{ user: User; session: SessionInfo }>('/auth/register', {
       method: 'POST',
       body: JSON.stringify(userData),
     });
   },
 
-  async login(email: string, password: string) {
-    return apiRequest<{ user: User }>('/auth/login', {
+  async login(email: string, password: string, rememberMe?: boolean) {
+    return apiRequest<{ user: User; session: SessionInfo }>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password, rememberMe }),
+    });
+  },
+
+  async logout() {
+    return apiRequest<{ success: boolean }>('/auth/logout', {
+      method: 'POST',
+    });
+  },
+
+  async refreshSession() {
+    return apiRequest<{ user: User; session: SessionInfo }>('/auth/refresh', {
+      method: 'POST',
+    });
+  },
+
+  async getSession() {
+    return fetcher<{ user: User; session: SessionInfo }>('/auth/session');
+  },
+
+  async requestOtp(phone: string) {
+    return apiRequest<{ success: boolean; phone: string; expiresAt: string }>('/auth/otp/request', {
+      method: 'POST',
+      body: JSON.stringify({ phone }),
+    });
+  },
+
+  async verifyOtp(phone: string, code: string, fullName?: string) {
+    return apiRequest<{ user: User; session: SessionInfo; isNewUser: boolean }>('/auth/otp/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phone, code, fullName }),
+    });
+  },
+
+  async requestPasswordReset(email: string) {
+    return apiRequest<{ success: boolean }>('/auth/password-reset/request', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  },
+
+  async confirmPasswordReset(token: string, password: string) {
+    return apiRequest<{ success: boolean }>('/auth/password-reset/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  },
+
+  async requestEmailVerification() {
+    return apiRequest<{ success: boolean }>('/auth/verify-email/request', {
       method: 'POST',
-      body: JSON.stringify({ email, password }),
+    });
+  },
+
+  async updateProfile(updates: Partial<Pick<InsertUser, 'fullName' | 'phone' | 'avatarUrl' | 'address'>>) {
+    return apiRequest<{ user: User }>('/me', {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
     });
   },
 
   async getUser(id: string) {
     return fetcher<{ user: User }>(`/auth/user/${id}`);
   },
+
+  async exportAccountData() {
+    return fetcher<Record<string, unknown>>('/me/export');
+  },
+
+  async deleteAccount(confirm: string) {
+    return apiRequest<{ success: boolean }>('/me', {
+      method: 'DELETE',
+      body: JSON.stringify({ confirm }),
+    });
+  },
 };
 
 // Product services
+export interface ProductQuery {
+  category?: string;
+  featured?: boolean;
+  search?: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  sort?: ProductSort;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  onSale?: boolean;
+  tags?: string[];
+  // Spec filters; dimensions are maximums in centimetres
+  maxWidth?: number;
+  maxDepth?: number;
+  maxHeight?: number;
+  material?: string[];
+  minSeating?: number;
+  assemblyRequired?: boolean;
+  // Ask the server for category/tag/price counts alongside the products
+  facets?: boolean;
+}
+
 export const productService = {
-  async getProducts(filters?: {
-    category?: string;
-    featured?: boolean;
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getProducts(filters?: ProductQuery) {
     const params = new URLSearchParams();
     if (filters?.category) params.append('category', filters.category);
     if (filters?.featured !== undefined) params.append('featured', filters.featured.toString());
     if (filters?.search) params.append('search', filters.search);
     if (filters?.limit) params.append('limit', filters.limit.toString());
     if (filters?.offset) params.append('offset', filters.offset.toString());
+    if (filters?.cursor) params.append('cursor', filters.cursor);
+    if (filters?.sort) params.append('sort', filters.sort);
+    if (filters?.minPrice !== undefined) params.append('minPrice', filters.minPrice.toString());
+    if (filters?.maxPrice !== undefined) params.append('maxPrice', filters.maxPrice.toString());
+    if (filters?.minRating) params.append('minRating', filters.minRating.toString());
+    if (filters?.inStock) params.append('inStock', 'true');
+    if (filters?.onSale) params.append('onSale', 'true');
+    if (filters?.tags?.length) params.append('tags', filters.tags.join(','));
+    if (filters?.maxWidth) params.append('maxWidth', filters.maxWidth.toString());
+    if (filters?.maxDepth) params.append('maxDepth', filters.maxDepth.toString());
+    if (filters?.maxHeight) params.append('maxHeight', filters.maxHeight.toString());
+    if (filters?.material?.length) params.append('material', filters.material.join(','));
+    if (filters?.minSeating) params.append('minSeating', filters.minSeating.toString());
+    if (filters?.assemblyRequired !== undefined) params.append('assemblyRequired', filters.assemblyRequired.toString());
+    if (filters?.facets) params.append('facets', 'true');
     
     const queryString = params.toString();
-    return fetcher<{ products: Product[] }>(`/products${queryString ? `?${queryString}` : ''}`);
+    return fetcher<ProductPage & { facets?: ProductFacets }>(`/products${queryString ? `?${queryString}` : ''}`);
   },
 
   async getProduct(id: string) {
-    return fetcher<{ product: Product }>(`/products/${id}`);
+    return fetcher<{
+      product: Product;
+      variants: ProductVariant[];
+      specTemplate: SpecTemplateField[];
+      breadcrumbs: CategoryCrumb[];
+    }>(`/products/${id}`);
+  },
+
+  async getRelatedProducts(id: string) {
+    return fetcher<{ products: Product[] }>(`/products/${id}/related`);
+  },
+
+  async getBoughtTogether(id: string) {
+    return fetcher<{ products: Product[] }>(`/products/${id}/bought-together`);
   },
 
+
   async createProduct(product: InsertProduct) {
     return apiRequest<{ product: Product }>('/products', {
       method: 'POST',
@@ -73,12 +209,29 @@ export const productService = {
   },
 };
 
+// Search services
+export const searchService = {
+  async getSuggestions(query: string) {
+    return fetcher<SearchSuggestions>(`/search/suggest?q=${encodeURIComponent(query)}`);
+  },
+};
+
 // Category services
 export const categoryService = {
   async getCategories() {
     return fetcher<{ categories: Category[] }>('/categories');
   },
 
+  async getCategoryTree() {
+    return fetcher<{ categories: CategoryNode[] }>('/categories/tree');
+  },
+
+  async getCategory(slug: string) {
+    return fetcher<{ category: Category; breadcrumbs: CategoryCrumb[]; children: Category[] }>(
+      `/categories/${encodeURIComponent(slug)}`
+    );
+  },
+
   async createCategory(category: InsertCategory) {
     return apiRequest<{ category: Category }>('/categories', {
       method: 'POST',
@@ -89,8 +242,12 @@ export const categoryService = {
 
 // Order services
 export const orderService = {
-  async getOrders(userId: string) {
-    return fetcher<{ orders: Order[] }>(`/orders/${userId}`);
+  async getOrders() {
+    return fetcher<{ orders: Order[] }>('/me/orders');
+  },
+
+  async getOrder(id: string) {
+    return fetcher<{ order: Order; items: OrderItem[] }>(`/me/orders/${id}`);
   },
 
   async createOrder(order: InsertOrder) {
@@ -103,8 +260,8 @@ export const orderService = {
 
 // Cart services
 export const cartService = {
-  async getCartItems(userId: string) {
-    return fetcher<{ items: CartItem[] }>(`/cart/${userId}`);
+  async getCartItems() {
+    return fetcher<{ items: CartItem[] }>('/me/cart');
   },
 
   async addToCart(item: InsertCartItem) {
@@ -126,12 +283,18 @@ export const cartService = {
       method: 'DELETE',
     });
   },
+
+  async clearCart() {
+    return apiRequest<{ success: boolean }>('/me/cart', {
+      method: 'DELETE',
+    });
+  },
 };
 
 // Wishlist services
 export const wishlistService = {
-  async getWishlistItems(userId: string) {
-    return fetcher<{ items: WishlistItem[] }>(`/wishlist/${userId}`);
+  async getWishlistItems() {
+    return fetcher<{ items: WishlistItem[] }>('/me/wishlist');
   },
 
   async addToWishlist(item: InsertWishlistItem) {
@@ -141,8 +304,122 @@ export const wishlistService = {
     });
   },
 
-  async removeFromWishlist(userId: string, productId: string) {
-    return apiRequest<{ success: boolean }>(`/wishlist/${userId}/${productId}`, {
+  async removeFromWishlist(productId: string, variantId?: string) {
+    const query = variantId ? `?variantId=${encodeURIComponent(variantId)}` : '';
+    return apiRequest<{ success: boolean }>(`/me/wishlist/${productId}${query}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Personalization services
+export const personalizationService = {
+  // Ids the browser remembers (recent views, wishlist) count for guests too
+  async getHomeRails(signals: { viewed: string[]; wishlist: string[] }) {
+    const params = new URLSearchParams();
+    if (signals.viewed.length) params.append('viewed', signals.viewed.join(','));
+    if (signals.wishlist.length) params.append('wishlist', signals.wishlist.join(','));
+    const queryString = params.toString();
+    return fetcher<{ rails: HomeRail[] }>(`/personalization/home${queryString ? `?${queryString}` : ''}`);
+  },
+};
+
+// Browsing history services
+export const HISTORY_QUERY_KEY = ['/api/me/history'];
+
+export const historyService = {
+  async getHistory() {
+    return fetcher<{ items: ViewedProduct[]; paused: boolean }>('/me/history');
+  },
+
+  // Ignored by the server while history is paused
+  async recordView(productId: string) {
+    return apiRequest<{ recorded: boolean }>('/me/history', {
+      method: 'POST',
+      body: JSON.stringify({ productId }),
+    });
+  },
+
+  async mergeGuestHistory(items: { productId: string; viewedAt: string }[]) {
+    return apiRequest<{ merged: number }>('/me/history/merge', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+  },
+
+  async removeItem(productId: string) {
+    return apiRequest<{ success: boolean }>(`/me/history/${productId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  async clearHistory() {
+    return apiRequest<{ success: boolean }>('/me/history', {
+      method: 'DELETE',
+    });
+  },
+
+  async setPaused(paused: boolean) {
+    return apiRequest<{ paused: boolean }>('/me/history/settings', {
+      method: 'PUT',
+      body: JSON.stringify({ paused }),
+    });
+  },
+};
+
+// Address book services
+export type AddressInput = Omit<InsertAddress, 'userId'>;
+
+export const addressService = {
+  async getAddresses() {
+    return fetcher<{ addresses: Address[] }>('/me/addresses');
+  },
+
+  async createAddress(address: AddressInput) {
+    return apiRequest<{ address: Address }>('/me/addresses', {
+      method: 'POST',
+      body: JSON.stringify(address),
+    });
+  },
+
+  async updateAddress(id: string, updates: Partial<AddressInput>) {
+    return apiRequest<{ address: Address }>(`/me/addresses/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  async deleteAddress(id: string) {
+    return apiRequest<{ success: boolean }>(`/me/addresses/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Room profile services
+export type RoomInput = Omit<InsertRoomProfile, 'userId'>;
+
+export const roomService = {
+  async getRooms() {
+    return fetcher<{ rooms: RoomProfile[] }>('/me/rooms');
+  },
+
+  async createRoom(room: RoomInput) {
+    return apiRequest<{ room: RoomProfile }>('/me/rooms', {
+      method: 'POST',
+      body: JSON.stringify(room),
+    });
+  },
+
+  async updateRoom(id: string, updates: Partial<RoomInput>) {
+    return apiRequest<{ room: RoomProfile }>(`/me/rooms/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  },
+
+  async deleteRoom(id: string) {
+    return apiRequest<{ success: boolean }>(`/me/rooms/${id}`, {
       method: 'DELETE',
     });
   },
@@ -5,6 +5,7 @@ import productSlice from './slices/productSlice';
 import wishlistSlice from './slices/wishlistSlice';
 import historySlice from './slices/historySlice';
 import orderSlice from './slices/orderSlice';
+import { GuestHistory } from '../lib/guestHistory';
 
 export const store = configureStore({
   reducer: {
@@ -17,5 +18,15 @@ export const store = configureStore({
   },
 });
 
+// Guests' views outlive a reload; signed-in views are saved server-side instead
+let savedHistory = store.getState().history.items;
+store.subscribe(() => {
+  const { auth, history } = store.getState();
+  if (history.items !== savedHistory && !auth.isAuthenticated) {
+    GuestHistory.save(history.items);
+  }
+  savedHistory = history.items;
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { User } from '@shared/schema';
-import { MockAuthService } from '../../utils/mockAuth';
 
 interface AuthState {
   user: User | null;
@@ -28,7 +27,6 @@ const authSlice = createSlice({
     logout: (state) => {
       state.user = null;
       state.isAuthenticated = false;
-      MockAuthService.logout();
     },
   },
 });
@@ -1,13 +1,21 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { Product } from '@shared/schema';
+import type { Product, ProductVariant } from '@shared/schema';
 
 // Custom cart item interface with product data
-interface CartItemWithProduct {
+export interface CartItemWithProduct {
   id: string;
   product: Product;
+  // Chosen variant for products sold in several options; its price overrides the product's
+  variant: ProductVariant | null;
   quantity: number;
 }
 
+export const cartItemPrice = (item: Pick<CartItemWithProduct, 'product' | 'variant'>) =>
+  Number(item.variant?.price ?? item.product.price);
+
+const cartTotal = (items: CartItemWithProduct[]) =>
+  items.reduce((sum, item) => sum + cartItemPrice(item) * item.quantity, 0);
+
 interface CartState {
   items: CartItemWithProduct[];
   total: number;
@@ -24,28 +32,32 @@ const cartSlice = createSlice({
   name: 'cart',
   initialState,
   reducers: {
-    addToCart: (state, action: PayloadAction<Product>) => {
-      const existingItem = state.items.find(item => item.product.id === action.payload.id);
-      if (existingItem) {
-        existingItem.quantity += 1;
-      } else {
-        state.items.push({
-          id: action.payload.id,
-          product: action.payload,
-          quantity: 1,
-        });
-      }
-      state.total = state.items.reduce((sum, item) => sum + (Number(item.product.price) * item.quantity), 0);
+    addToCart: {
+      reducer: (state, action: PayloadAction<{ product: Product; variant: ProductVariant | null }>) => {
+        const { product, variant } = action.payload;
+        // Each variant of a product gets its own line
+        const id = variant ? `${product.id}:${variant.id}` : product.id;
+        const existingItem = state.items.find(item => item.id === id);
+        if (existingItem) {
+          existingItem.quantity += 1;
+        } else {
+          state.items.push({ id, product, variant, quantity: 1 });
+        }
+        state.total = cartTotal(state.items);
+      },
+      prepare: (product: Product, variant: ProductVariant | null = null) => ({
+        payload: { product, variant },
+      }),
     },
     removeFromCart: (state, action: PayloadAction<string>) => {
       state.items = state.items.filter(item => item.id !== action.payload);
-      state.total = state.items.reduce((sum, item) => sum + (Number(item.product.price) * item.quantity), 0);
+      state.total = cartTotal(state.items);
     },
     updateQuantity: (state, action: PayloadAction<{ id: string; quantity: number }>) => {
       const item = state.items.find(item => item.id === action.payload.id);
       if (item) {
         item.quantity = action.payload.quantity;
-        state.total = state.items.reduce((sum, item) => sum + (Number(item.product.price) * item.quantity), 0);
+        state.total = cartTotal(state.items);
       }
     },
     clearCart: (state) => {
@@ -55,8 +67,11 @@ const cartSlice = createSlice({
     toggleCart: (state) => {
       state.isOpen = !state.isOpen;
     },
+    setCartOpen: (state, action: PayloadAction<boolean>) => {
+      state.isOpen = action.payload;
+    },
   },
 });
 
-export const { addToCart, removeFromCart, updateQuantity, clearCart, toggleCart } = cartSlice.actions;
+export const { addToCart, removeFromCart, updateQuantity, clearCart, toggleCart, setCartOpen } = cartSlice.actions;
 export default cartSlice.reducer;
\ No newline at end of file
@@ -1,33 +1,55 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { Product } from '../../types';
+import { GuestHistory } from '../../lib/guestHistory';
+import { logout } from './authSlice';
+
+export const MAX_HISTORY_ITEMS = 50;
+
+export interface HistoryEntry {
+  product: Product;
+  // ISO timestamp of the latest view
+  viewedAt: string;
+}
 
 interface HistoryState {
-  items: Product[];
+  // Views in this browser, most recent first. Guests' survive reloads; signed-in views are also saved server-side.
+  items: HistoryEntry[];
 }
 
 const initialState: HistoryState = {
-  items: [],
+  items: GuestHistory.load(),
 };
 
 const historySlice = createSlice({
   name: 'history',
   initialState,
   reducers: {
-    addToHistory: (state, action: PayloadAction<Product>) => {
-      // Remove if already exists to avoid duplicates
-      state.items = state.items.filter(item => item.id !== action.payload.id);
-      // Add to beginning of array (most recent first)
-      state.items.unshift(action.payload);
-      // Keep only last 50 items
-      if (state.items.length > 50) {
-        state.items = state.items.slice(0, 50);
-      }
+    addToHistory: {
+      reducer: (state, action: PayloadAction<HistoryEntry>) => {
+        // Remove if already exists to avoid duplicates
+        state.items = state.items.filter(item => item.product.id !== action.payload.product.id);
+        // Add to beginning of array (most recent first)
+        state.items.unshift(action.payload);
+        if (state.items.length > MAX_HISTORY_ITEMS) {
+          state.items = state.items.slice(0, MAX_HISTORY_ITEMS);
+        }
+      },
+      prepare: (product: Product) => ({ payload: { product, viewedAt: new Date().toISOString() } }),
+    },
+    removeFromHistory: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(item => item.product.id !== action.payload);
     },
     clearHistory: (state) => {
       state.items = [];
     },
   },
+  extraReducers: (builder) => {
+    // The next person on this browser shouldn't inherit the last account's views
+    builder.addCase(logout, (state) => {
+      state.items = [];
+    });
+  },
 });
 
-export const { addToHistory, clearHistory } = historySlice.actions;
-export default historySlice.reducer;
\ No newline at end of file
+export const { addToHistory, removeFromHistory, clearHistory } = historySlice.actions;
+export default historySlice.reducer;
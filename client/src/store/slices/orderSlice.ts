@@ -8,6 +8,11 @@ export interface OrderItem {
     price: number;
     images: string[];
   };
+  variant?: {
+    id: string;
+    sku: string;
+    options: Record<string, string>;
+  };
   quantity: number;
   price: number;
 }
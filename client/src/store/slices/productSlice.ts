@@ -46,18 +46,18 @@ const productSlice = createSlice({
       state.currentCategory = action.payload;
       state.filteredProducts = action.payload === 'all' 
         ? state.products 
-        : state.products.filter(product => product.category === action.payload);
+        : state.products.filter(product => product.categorySlug === action.payload);
     },
     setSortBy: (state, action: PayloadAction<'price' | 'popularity' | 'latest'>) => {
       state.sortBy = action.payload;
       state.filteredProducts = [...state.filteredProducts].sort((a, b) => {
         switch (action.payload) {
           case 'price':
-            return a.price - b.price;
+            return Number(a.price) - Number(b.price);
           case 'popularity':
-            return b.rating - a.rating;
+            return Number(b.rating ?? 0) - Number(a.rating ?? 0);
           case 'latest':
-            return Date.now() - Date.now(); // Mock latest sort
+            return new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime();
           default:
             return 0;
         }
@@ -1,8 +1,11 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { Product } from '../../types';
+import { Product, ProductVariant } from '../../types';
+
+// Saved products remember the option the shopper was looking at, if any
+export type WishlistProduct = Product & { variant?: ProductVariant | null };
 
 interface WishlistState {
-  items: Product[];
+  items: WishlistProduct[];
 }
 
 const initialState: WishlistState = {
@@ -13,10 +16,12 @@ const wishlistSlice = createSlice({
   name: 'wishlist',
   initialState,
   reducers: {
-    addToWishlist: (state, action: PayloadAction<Product>) => {
+    addToWishlist: (state, action: PayloadAction<WishlistProduct>) => {
       const existingItem = state.items.find(item => item.id === action.payload.id);
       if (!existingItem) {
         state.items.push(action.payload);
+      } else if (action.payload.variant) {
+        existingItem.variant = action.payload.variant;
       }
     },
     removeFromWishlist: (state, action: PayloadAction<string>) => {
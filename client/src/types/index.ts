@@ -1,7 +1,10 @@
 // Re-export types from shared schema for frontend use
 export type {
   User,
+  Address,
+  RoomProfile,
   Product,
+  ProductVariant,
   Category,
   Order,
   CartItem,
@@ -10,7 +13,10 @@ export type {
   Transaction,
   TransactionEvent,
   InsertUser,
+  InsertAddress,
+  InsertRoomProfile,
   InsertProduct,
+  InsertProductVariant,
   InsertCategory,
   InsertOrder,
   InsertCartItem,
@@ -0,0 +1,10 @@
+import type { Address } from '@shared/schema';
+
+// Street part of an address: line 1, line 2 and landmark
+export const formatStreet = (address: Pick<Address, 'line1' | 'line2' | 'landmark'>) =>
+  [address.line1, address.line2, address.landmark ? `Near ${address.landmark}` : null]
+    .filter(Boolean)
+    .join(', ');
+
+export const formatAddress = (address: Address) =>
+  `${formatStreet(address)}, ${address.city}, ${address.state} - ${address.pincode}`;
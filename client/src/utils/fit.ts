@@ -0,0 +1,106 @@
+import type { ProductSpecs, RoomProfile } from '@shared/schema';
+
+export type FitStatus = 'fits' | 'tight' | 'no_fit';
+
+export interface FitCheck {
+  label: string;
+  status: FitStatus;
+  detail: string;
+}
+
+export type FitMeasurements = Partial<Pick<
+  RoomProfile,
+  'roomWidthCm' | 'roomLengthCm' | 'ceilingHeightCm' | 'doorWidthCm' | 'doorHeightCm' | 'passageWidthCm'
+>>;
+
+interface Box {
+  widthCm: number;
+  depthCm: number;
+  heightCm: number;
+}
+
+// Less spare room than this and carrying it in or walking around it gets awkward
+export const FIT_CLEARANCE_CM = 5;
+
+// Snapshots saved before products had specs (wishlist, history) have none at all
+export const productBox = (specs: ProductSpecs | undefined): Box | null =>
+  specs?.widthCm && specs.depthCm && specs.heightCm
+    ? { widthCm: specs.widthCm, depthCm: specs.depthCm, heightCm: specs.heightCm }
+    : null;
+
+const statusForMargin = (margin: number): FitStatus =>
+  margin < 0 ? 'no_fit' : margin < FIT_CLEARANCE_CM ? 'tight' : 'fits';
+
+const marginDetail = (margin: number) =>
+  margin < 0 ? `Too big by ${Math.ceil(-margin)} cm` : `${Math.floor(margin)} cm to spare`;
+
+/**
+ * Whether a side × side cross-section passes through a doorway when turned by
+ * some angle in the door's plane, i.e. carried through diagonally.
+ */
+const passesTilted = (short: number, long: number, doorWidth: number, doorHeight: number) => {
+  for (let degrees = 1; degrees < 90; degrees++) {
+    const angle = (degrees * Math.PI) / 180;
+    const across = long * Math.cos(angle) + short * Math.sin(angle);
+    const up = long * Math.sin(angle) + short * Math.cos(angle);
+    if (across <= doorWidth && up <= doorHeight) return true;
+  }
+  return false;
+};
+
+const checkDoorway = (box: Box, doorWidth: number, doorHeight: number): FitCheck => {
+  const [smallest, middle] = [box.widthCm, box.depthCm, box.heightCm].sort((a, b) => a - b);
+  // The longest side goes through the door first, so only the two smaller sides must clear the frame
+  const narrowSide = Math.min(doorWidth, doorHeight);
+  const wideSide = Math.max(doorWidth, doorHeight);
+  const margin = Math.min(narrowSide - smallest, wideSide - middle);
+
+  if (margin >= 0) {
+    return { label: 'Doorway', status: statusForMargin(margin), detail: marginDetail(margin) };
+  }
+  if (passesTilted(smallest, middle, doorWidth, doorHeight)) {
+    return { label: 'Doorway', status: 'tight', detail: 'Only fits when tilted diagonally through the frame' };
+  }
+  return { label: 'Doorway', status: 'no_fit', detail: marginDetail(margin) };
+};
+
+/**
+ * Checks a product against whichever measurements were given. Room length and
+ * width may be swapped freely, since furniture can face either way.
+ */
+export const checkFit = (box: Box, room: FitMeasurements): FitCheck[] => {
+  const checks: FitCheck[] = [];
+
+  if (room.roomWidthCm && room.roomLengthCm) {
+    const margin = Math.max(
+      Math.min(room.roomWidthCm - box.widthCm, room.roomLengthCm - box.depthCm),
+      Math.min(room.roomWidthCm - box.depthCm, room.roomLengthCm - box.widthCm),
+    );
+    checks.push({ label: 'Floor space', status: statusForMargin(margin), detail: marginDetail(margin) });
+  }
+
+  if (room.ceilingHeightCm) {
+    const margin = room.ceilingHeightCm - box.heightCm;
+    checks.push({ label: 'Ceiling height', status: statusForMargin(margin), detail: marginDetail(margin) });
+  }
+
+  if (room.doorWidthCm && room.doorHeightCm) {
+    checks.push(checkDoorway(box, room.doorWidthCm, room.doorHeightCm));
+  }
+
+  if (room.passageWidthCm) {
+    // Carried on its slimmest side through stairs and corridors
+    const margin = room.passageWidthCm - Math.min(box.widthCm, box.depthCm, box.heightCm);
+    checks.push({ label: 'Stairs & corridors', status: statusForMargin(margin), detail: marginDetail(margin) });
+  }
+
+  return checks;
+};
+
+const statusRank: Record<FitStatus, number> = { fits: 0, tight: 1, no_fit: 2 };
+
+// The overall verdict is the worst individual check
+export const fitVerdict = (checks: FitCheck[]): FitStatus | null =>
+  checks.length === 0
+    ? null
+    : checks.reduce<FitStatus>((worst, check) => (statusRank[check.status] > statusRank[worst] ? check.status : worst), 'fits');
@@ -0,0 +1,12 @@
+import type { ImageFormat, ResponsiveImage } from '@shared/schema';
+
+// Renditions for an image URL, when it was uploaded rather than hot-linked
+export const findImageAsset = (url: string | undefined, assets: ResponsiveImage[] | undefined) =>
+  url ? assets?.find((asset) => asset.url === url) : undefined;
+
+// "…/320.avif 320w, …/640.avif 640w" for one format
+export const imageSrcSet = (asset: ResponsiveImage, format: ImageFormat) =>
+  asset.renditions
+    .filter((rendition) => rendition.format === format)
+    .map((rendition) => `${rendition.url} ${rendition.width}w`)
+    .join(', ');
@@ -0,0 +1,27 @@
+import type { Location } from 'react-router-dom';
+
+// Storefront URLs; the server's HTML handler and sitemap use the same shapes
+export const paths = {
+  home: '/',
+  products: '/products',
+  product: (slug: string) => `/products/${encodeURIComponent(slug)}`,
+  category: (slug: string) => `/category/${encodeURIComponent(slug)}`,
+  cart: '/cart',
+  checkout: '/checkout',
+  // Single-product checkout straight from a product card
+  buyNow: (slug: string) => `/checkout?buyNow=${encodeURIComponent(slug)}`,
+  account: '/account',
+  wishlist: '/account/wishlist',
+  history: '/account/history',
+  orders: '/account/orders',
+  order: (id: string) => `/orders/${encodeURIComponent(id)}`,
+  deals: '/deals',
+};
+
+// Products listing, optionally narrowed to a category; null means all products
+export const categoryPath = (slug: string | null) => (slug ? paths.category(slug) : paths.products);
+
+// Router state for pages opened as a modal over whatever was on screen
+export interface ModalLocationState {
+  backgroundLocation?: Location;
+}
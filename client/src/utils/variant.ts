@@ -0,0 +1,29 @@
+import type { ProductVariant } from '@shared/schema';
+
+// "Teal · 3 Seater" style label for a variant's option values
+export const formatVariantOptions = (options: Record<string, string>) =>
+  Object.values(options).join(' · ');
+
+export interface VariantOptionGroup {
+  name: string;
+  values: string[];
+}
+
+// Option names and their values in the order the variants list them
+export const variantOptionGroups = (variants: ProductVariant[]): VariantOptionGroup[] => {
+  const groups = new Map<string, string[]>();
+  variants.forEach((variant) => {
+    Object.entries(variant.options).forEach(([name, value]) => {
+      const values = groups.get(name) ?? [];
+      if (!values.includes(value)) values.push(value);
+      groups.set(name, values);
+    });
+  });
+  return Array.from(groups.entries()).map(([name, values]) => ({ name, values }));
+};
+
+// The variant whose options match every selected value, if there is one
+export const findVariant = (variants: ProductVariant[], selected: Record<string, string>) =>
+  variants.find((variant) =>
+    Object.entries(variant.options).every(([name, value]) => selected[name] === value)
+  );
@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import type { SafeUser } from "./auth";
+
+export const ACCOUNT_DELETION_CONFIRMATION = "DELETE";
+
+/**
+ * Everything we hold about a user, for DPDP data access requests.
+ * Orders carry their line items so the bundle stands on its own.
+ */
+export async function buildAccountExport(user: SafeUser) {
+  const [addresses, rooms, orders, reviews, wishlist, cart, history] = await Promise.all([
+    storage.getAddresses(user.id),
+    storage.getRoomProfiles(user.id),
+    storage.getOrders(user.id),
+    storage.getUserReviews(user.id),
+    storage.getWishlistItems(user.id),
+    storage.getCartItems(user.id),
+    storage.getViewHistory(user.id, Number.MAX_SAFE_INTEGER),
+  ]);
+
+  const ordersWithItems = await Promise.all(
+    orders.map(async (order) => ({ ...order, items: await storage.getOrderItems(order.id) })),
+  );
+  const transactions = await storage.getTransactionsForOrders(orders.map((order) => order.id));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    addresses,
+    rooms,
+    orders: ordersWithItems,
+    transactions,
+    reviews,
+    wishlist,
+    cart,
+    browsingHistory: history.map(({ product, viewedAt }) => ({ productId: product.id, name: product.name, viewedAt })),
+  };
+}
+
+export function exportFilename(user: SafeUser): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `interoo-account-${user.id}-${date}.json`;
+}
+
+export function deleteAccount(user: SafeUser): Promise<boolean> {
+  return storage.deleteUserAccount(user.id);
+}
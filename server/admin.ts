@@ -0,0 +1,42 @@
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+/**
+ * Promotes the account with this email to admin, creating it first when a
+ * password is given and the account does not exist yet.
+ */
+export async function ensureAdmin(email: string, password?: string): Promise<User> {
+  let user = await storage.getUserByEmail(email);
+
+  if (!user) {
+    if (!password) {
+      throw new Error(`No user with email ${email}; provide a password to create one`);
+    }
+    user = await storage.createUser({
+      email,
+      password: await bcrypt.hash(password, 10),
+      fullName: "Administrator",
+    });
+  }
+
+  if (user.role === "admin") {
+    return user;
+  }
+
+  const promoted = await storage.setUserRole(user.id, "admin");
+  if (!promoted) {
+    throw new Error(`Failed to promote ${email} to admin`);
+  }
+  return promoted;
+}
+
+/**
+ * Bootstraps the first admin from ADMIN_EMAIL / ADMIN_PASSWORD on startup
+ */
+export async function bootstrapAdminFromEnv(): Promise<User | undefined> {
+  const email = process.env.ADMIN_EMAIL;
+  if (!email) return undefined;
+
+  return ensureAdmin(email, process.env.ADMIN_PASSWORD);
+}
@@ -0,0 +1,139 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Sessions last a day by default, or a month when the user ticks "remember me"
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const SESSION_COOKIE_NAME = "interoo.sid";
+export const SESSION_TABLE_NAME = "session";
+
+export type SafeUser = Omit<User, "password">;
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+    rememberMe?: boolean;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SafeUser;
+    }
+  }
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { password, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+}
+
+export function getSessionInfo(req: Request) {
+  return {
+    expiresAt: req.session.cookie.expires ? req.session.cookie.expires.toISOString() : null,
+  };
+}
+
+// The development fallback is public, so anyone could sign cookies with it
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "dev_session_secret_change_me";
+}
+
+export function setupAuth(app: Express) {
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      name: SESSION_COOKIE_NAME,
+      secret: sessionSecret(),
+      store: new PostgresSessionStore({
+        conString: process.env.DATABASE_URL,
+        tableName: SESSION_TABLE_NAME,
+        createTableIfMissing: true,
+        ttl: REMEMBER_ME_TTL_MS / 1000,
+      }),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    }),
+  );
+
+  // Populate req.user from the session on every request
+  app.use(async (req, _res, next) => {
+    if (!req.session.userId) {
+      return next();
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user) {
+        req.user = toSafeUser(user);
+      } else {
+        delete req.session.userId;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Starts a fresh session for the user. The session id is regenerated so a
+ * pre-login cookie can never be reused after authentication.
+ */
+export function establishSession(req: Request, user: User, rememberMe = false): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+
+      req.session.userId = user.id;
+      req.session.rememberMe = rememberMe;
+      req.session.cookie.maxAge = rememberMe ? REMEMBER_ME_TTL_MS : SESSION_TTL_MS;
+      req.user = toSafeUser(user);
+
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function extendSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.cookie.maxAge = req.session.rememberMe ? REMEMBER_ME_TTL_MS : SESSION_TTL_MS;
+    req.session.save((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export function destroySession(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => {
+      if (err) return reject(err);
+      req.user = undefined;
+      res.clearCookie(SESSION_COOKIE_NAME);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,56 @@
+import type { Request, Response, NextFunction } from "express";
+import { userRoles, type UserRole } from "@shared/schema";
+
+/**
+ * Ownership rules carried over from the old Supabase RLS policies
+ * ("Users can view own orders", "Users can manage own cart items", ...).
+ * Every per-user resource is only reachable by the user it belongs to.
+ */
+
+export function isOwner(req: Request, ownerId: string | null | undefined): boolean {
+  return !!req.user && !!ownerId && ownerId === req.user.id;
+}
+
+/**
+ * True when a request body names a user other than the signed-in one.
+ * Bodies that omit the user id are fine; the route fills it in from the session.
+ */
+export function claimsOtherUser(req: Request, userId: unknown): boolean {
+  return userId !== undefined && userId !== null && userId !== req.user?.id;
+}
+
+/**
+ * Requires the `:userId` (or given) route param to be the signed-in user
+ */
+export function requireSameUser(param = "userId") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (req.params[param] !== req.user.id) {
+      return res.status(403).json({ error: "You do not have access to this resource" });
+    }
+    next();
+  };
+}
+
+export function hasRole(req: Request, role: UserRole): boolean {
+  if (!req.user) return false;
+  return userRoles.indexOf(req.user.role) >= userRoles.indexOf(role);
+}
+
+/**
+ * Requires the signed-in user to hold at least the given role.
+ * Roles are ranked customer < staff < admin.
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req, role)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,314 @@
+import { once } from "events";
+import type { Response } from "express";
+import { ZodError, z } from "zod";
+import {
+  insertProductSchema,
+  productSpecKeys,
+  productSpecsSchema,
+  type Category,
+  type InsertProduct,
+  type Product,
+  type ProductSpecKey,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { specTemplateFor, missingSpecsMessage } from "./productSpecs";
+import { fromCsvCell, parseCsv, toCsvRow } from "./csv";
+import { slugify, uniqueSlug } from "./slugs";
+
+export const MAX_IMPORT_ROWS = 5000;
+const EXPORT_PAGE_SIZE = 500;
+const LIST_SEPARATOR = "|";
+
+// Spec keys are columns of their own so spreadsheets stay flat
+export const CATALOG_COLUMNS = [
+  "sku",
+  "slug",
+  "name",
+  "description",
+  "price",
+  "originalPrice",
+  "category",
+  "images",
+  "tags",
+  "stock",
+  "featured",
+  ...productSpecKeys,
+] as const;
+
+export type CatalogFormat = "csv" | "json";
+
+export class CatalogImportError extends Error {}
+
+export interface ImportRowError {
+  // 1-based line in a CSV file (the header is line 1) or position in a JSON array
+  row: number;
+  sku: string | null;
+  errors: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+interface SourceRow {
+  row: number;
+  record: Record<string, unknown>;
+}
+
+// Slugs are assigned after validation: existing products keep theirs, new ones get a free one
+const importRowSchema = insertProductSchema.omit({ slug: true });
+type ImportRow = z.infer<typeof importRowSchema> & { slugBase: string };
+
+function readRows(body: unknown, format: CatalogFormat): SourceRow[] {
+  if (format === "csv") {
+    if (typeof body !== "string") {
+      throw new CatalogImportError("Expected a CSV request body");
+    }
+    const [header, ...lines] = parseCsv(body);
+    if (!header) {
+      throw new CatalogImportError("The file is empty");
+    }
+    const columns = header.cells.map((cell) => cell.trim());
+    if (!columns.includes("sku")) {
+      throw new CatalogImportError("The header row must include a sku column");
+    }
+    return lines.map(({ line, cells }) => ({
+      row: line,
+      record: Object.fromEntries(columns.map((column, i) => [column, fromCsvCell(cells[i] ?? "")])),
+    }));
+  }
+
+  // Accept a bare array or the { products } shape the export produces
+  const list = Array.isArray(body) ? body : (body as { products?: unknown } | null)?.products;
+  if (!Array.isArray(list)) {
+    throw new CatalogImportError("Expected a JSON array of products or { products: [...] }");
+  }
+  return list.map((record, index) => ({
+    row: index + 1,
+    record: record && typeof record === "object" ? record as Record<string, unknown> : {},
+  }));
+}
+
+// CSV cells are always strings; JSON values may already be typed
+function blank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+function text(value: unknown): unknown {
+  return blank(value) ? undefined : typeof value === "string" ? value.trim() : value;
+}
+
+function decimal(value: unknown): unknown {
+  return typeof value === "number" ? String(value) : text(value);
+}
+
+function numeric(value: unknown): unknown {
+  return typeof value === "string" && !blank(value) ? Number(value) : text(value);
+}
+
+function flag(value: unknown): unknown {
+  if (typeof value !== "string" || blank(value)) return text(value);
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return value;
+}
+
+function list(value: unknown): unknown {
+  if (typeof value !== "string") return text(value);
+  return value.split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+}
+
+function specValue(key: ProductSpecKey, value: unknown): unknown {
+  const schema = productSpecsSchema.shape[key].unwrap();
+  if (schema instanceof z.ZodNumber) return numeric(value);
+  if (schema instanceof z.ZodBoolean) return flag(value);
+  return text(value);
+}
+
+function specsFrom(record: Record<string, unknown>): Record<string, unknown> {
+  // JSON rows may nest specs the way the API does
+  if (record.specs && typeof record.specs === "object") {
+    return record.specs as Record<string, unknown>;
+  }
+  const specs: Record<string, unknown> = {};
+  productSpecKeys.forEach((key) => {
+    const value = specValue(key, record[key]);
+    if (value !== undefined) specs[key] = value;
+  });
+  return specs;
+}
+
+function categoryResolver(categories: Category[]) {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const bySlug = new Map(categories.map((category) => [category.slug, category]));
+  const byName = new Map(categories.map((category) => [category.name.toLowerCase(), category]));
+  return (record: Record<string, unknown>): Category | undefined => {
+    if (typeof record.categoryId === "string") return byId.get(record.categoryId);
+    if (typeof record.category !== "string") return undefined;
+    const key = record.category.trim();
+    return bySlug.get(key) ?? byName.get(key.toLowerCase());
+  };
+}
+
+function issueMessages(error: ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Validates every row against insertProductSchema and the category's spec
+ * template, then upserts the valid rows by SKU in one transaction. Invalid
+ * rows are reported and skipped; a dry run reports without writing anything.
+ */
+export async function importCatalog(body: unknown, format: CatalogFormat, dryRun: boolean): Promise<ImportResult> {
+  const rows = readRows(body, format);
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new CatalogImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again`);
+  }
+
+  const categories = await storage.getCategories();
+  const resolveCategory = categoryResolver(categories);
+  const errors: ImportRowError[] = [];
+  const valid: ImportRow[] = [];
+  const firstRowBySku = new Map<string, number>();
+
+  rows.forEach(({ row, record }) => {
+    const sku = typeof record.sku === "string" && record.sku.trim() ? record.sku.trim() : null;
+    const rowErrors: string[] = [];
+
+    if (!sku) {
+      rowErrors.push("sku: Required");
+    } else if (firstRowBySku.has(sku)) {
+      rowErrors.push(`sku: Duplicate of row ${firstRowBySku.get(sku)}`);
+    } else {
+      firstRowBySku.set(sku, row);
+    }
+
+    const category = resolveCategory(record);
+    if (!category) {
+      rowErrors.push(blank(record.category) && blank(record.categoryId)
+        ? "category: Required"
+        : `category: Unknown category "${String(record.category ?? record.categoryId)}"`);
+    }
+
+    const parsed = importRowSchema.safeParse({
+      sku,
+      name: text(record.name),
+      description: text(record.description),
+      price: decimal(record.price),
+      originalPrice: decimal(record.originalPrice) ?? null,
+      categoryId: category?.id ?? "",
+      images: list(record.images),
+      tags: list(record.tags),
+      stock: numeric(record.stock),
+      featured: flag(record.featured),
+      specs: specsFrom(record),
+    });
+    if (!parsed.success) {
+      // The category problem is already reported in plain words above
+      rowErrors.push(...issueMessages(parsed.error).filter((message) => !message.startsWith("categoryId")));
+    } else if (category) {
+      const specsError = missingSpecsMessage(specTemplateFor(categories, category.id), parsed.data.specs);
+      if (specsError) rowErrors.push(specsError);
+    }
+
+    if (rowErrors.length > 0 || !parsed.success) {
+      errors.push({ row, sku, errors: rowErrors });
+    } else {
+      const slugBase = typeof record.slug === "string" && record.slug.trim() ? record.slug : parsed.data.name;
+      valid.push({ ...parsed.data, slugBase: slugify(slugBase, "product") });
+    }
+  });
+
+  const existing = await storage.getProductSlugsBySku(valid.map((product) => product.sku!));
+  if (!dryRun && valid.length > 0) {
+    await storage.upsertProductsBySku(await assignSlugs(valid, existing));
+  }
+
+  return {
+    dryRun,
+    total: rows.length,
+    created: valid.length - existing.size,
+    updated: existing.size,
+    failed: errors.length,
+    errors,
+  };
+}
+
+// Collisions are resolved against one lookup of every slug the new rows could clash with
+async function assignSlugs(rows: ImportRow[], slugsBySku: Map<string, string>): Promise<InsertProduct[]> {
+  const newBases = rows.filter((row) => !slugsBySku.has(row.sku!)).map((row) => row.slugBase);
+  const claimed = newBases.length > 0 ? await storage.getProductSlugsStartingWith(newBases) : new Set<string>();
+  const products: InsertProduct[] = [];
+  for (const { slugBase, ...product } of rows) {
+    const slug = slugsBySku.get(product.sku!) ?? await uniqueSlug(slugBase, async (candidate) => claimed.has(candidate));
+    claimed.add(slug);
+    products.push({ ...product, slug });
+  }
+  return products;
+}
+
+function toRecord(product: Product): Record<string, unknown> {
+  const specs = product.specs as Record<string, unknown>;
+  return {
+    sku: product.sku,
+    slug: product.slug,
+    name: product.name,
+    description: product.description,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    // Slugs survive category renames, so re-importing an export lands in the same place
+    category: product.categorySlug,
+    images: (product.images ?? []).join(LIST_SEPARATOR),
+    tags: (product.tags ?? []).join(LIST_SEPARATOR),
+    stock: product.stock,
+    featured: product.featured,
+    ...Object.fromEntries(productSpecKeys.map((key) => [key, specs[key]])),
+  };
+}
+
+function toJsonProduct(product: Product) {
+  const { id, sku, slug, name, description, price, originalPrice, categorySlug, images, tags, stock, featured, specs } = product;
+  return { id, sku, slug, name, description, price, originalPrice, category: categorySlug, images, tags, stock, featured, specs };
+}
+
+export function catalogFilename(format: CatalogFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `interoo-catalog-${date}.${format}`;
+}
+
+/**
+ * Streams the whole catalog a page at a time so memory stays flat however
+ * large it grows. Both formats can be fed straight back into importCatalog.
+ */
+export async function streamCatalogExport(res: Response, format: CatalogFormat): Promise<void> {
+  const write = async (chunk: string) => {
+    // A client that disconnects mid-download never drains
+    if (!res.write(chunk)) await Promise.race([once(res, "drain"), once(res, "close")]);
+  };
+
+  await write(format === "csv" ? toCsvRow([...CATALOG_COLUMNS]) : '{"products":[');
+  let afterId: string | null = null;
+  let first = true;
+  while (!res.destroyed) {
+    const page = await storage.getProductsAfter(afterId, EXPORT_PAGE_SIZE);
+    for (const product of page) {
+      if (format === "csv") {
+        const record = toRecord(product);
+        await write(toCsvRow(CATALOG_COLUMNS.map((column) => record[column])));
+      } else {
+        await write(`${first ? "" : ","}\n${JSON.stringify(toJsonProduct(product))}`);
+      }
+      first = false;
+    }
+    if (page.length < EXPORT_PAGE_SIZE) break;
+    afterId = page[page.length - 1].id;
+  }
+  if (format === "json") await write("\n]}\n");
+  res.end();
+}
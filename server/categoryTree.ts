@@ -0,0 +1,85 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { Category, CategoryCrumb, CategoryNode } from "@shared/schema";
+
+// Nests a flat category list; siblings keep the order they arrive in
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }]),
+  );
+  const roots: CategoryNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+}
+
+// Path from the top-level category down to and including the given one
+export function categoryPath(categories: Category[], id: string): Category[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: Category[] = [];
+  let current = byId.get(id);
+  // The length guard stops a corrupted parent loop from spinning forever
+  while (current && path.length <= categories.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function toCrumbs(path: Category[]): CategoryCrumb[] {
+  return path.map(({ id, name, slug }) => ({ id, name, slug }));
+}
+
+// True when making parentId the parent of id would create a cycle
+export function createsCycle(categories: Category[], id: string, parentId: string): boolean {
+  return categoryPath(categories, parentId).some((category) => category.id === id);
+}
+
+/**
+ * Ids of a category, found by slug or name, and everything below it, so
+ * browsing "Living Room" includes products filed under "Sofas".
+ */
+export function categorySubtreeIds(slugOrName: string): SQL {
+  return sql`(
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM categories WHERE slug = ${slugOrName} OR name = ${slugOrName}
+      UNION ALL
+      SELECT child.id FROM categories child JOIN subtree ON child.parent_id = subtree.id
+    )
+    SELECT id FROM subtree
+  )`;
+}
+
+/**
+ * One-off migration from the free-text products.category column to the
+ * category tree. Every distinct name becomes a top-level category (if it
+ * isn't one already), categories get slugs, and products point at them by id.
+ */
+export const CATEGORY_TREE_MIGRATION: SQL[] = [
+  sql`ALTER TABLE categories ADD COLUMN IF NOT EXISTS slug text`,
+  sql`ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES categories(id) ON DELETE RESTRICT`,
+  sql`ALTER TABLE categories ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0`,
+  sql`INSERT INTO categories (name)
+    SELECT DISTINCT p.category FROM products p
+    WHERE NOT EXISTS (SELECT 1 FROM categories c WHERE c.name = p.category)`,
+  sql`WITH slugged AS (
+      SELECT id, coalesce(nullif(trim(both '-' from regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g')), ''), 'category') AS base
+      FROM categories WHERE slug IS NULL
+    ), numbered AS (
+      SELECT id, base, row_number() OVER (PARTITION BY base ORDER BY id) AS n FROM slugged
+    )
+    UPDATE categories c SET slug = CASE WHEN n = 1 THEN base ELSE base || '-' || n END
+    FROM numbered WHERE c.id = numbered.id`,
+  sql`ALTER TABLE categories ALTER COLUMN slug SET NOT NULL`,
+  sql`ALTER TABLE categories ADD CONSTRAINT categories_slug_unique UNIQUE (slug)`,
+  sql`CREATE INDEX IF NOT EXISTS categories_parent_idx ON categories (parent_id)`,
+  sql`ALTER TABLE products ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES categories(id) ON DELETE RESTRICT`,
+  sql`UPDATE products p SET category_id = c.id FROM categories c WHERE c.name = p.category AND p.category_id IS NULL`,
+  sql`ALTER TABLE products ALTER COLUMN category_id SET NOT NULL`,
+  sql`CREATE INDEX IF NOT EXISTS products_category_idx ON products (category_id)`,
+  // The old search index and function read the text column
+  sql`DROP INDEX IF EXISTS products_search_idx`,
+  sql`DROP FUNCTION IF EXISTS products_search_vector(text, text, text[], text)`,
+  sql`ALTER TABLE products DROP COLUMN category`,
+];
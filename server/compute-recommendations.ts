@@ -0,0 +1,12 @@
+// Usage: npm run recommendations:compute (for a cron job when RECOMMENDATIONS_SCHEDULE=off)
+import { recomputeRecommendations } from "./recommendations";
+
+recomputeRecommendations()
+  .then((result) => {
+    console.log(`Rebuilt recommendations for ${result.products} products: ${result.related} related, ${result.boughtTogether} bought together`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,78 @@
+export interface CsvRow {
+  // 1-based line the row starts on; quoted fields can carry a row over several lines
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Minimal RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+  // Excel likes to prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // \r\n is one line break, counted at the \r
+    if (char === "\r" || (char === "\n" && input[i - 1] !== "\r")) line++;
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowStart, cells: row });
+      row = [];
+      field = "";
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowStart, cells: row });
+  }
+  // Blank lines carry no data
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Cells a spreadsheet would run as a formula get a leading quote. Cells that
+// already start with quotes before such a character get one more, so
+// fromCsvCell can always take exactly one back off.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+const GUARDED_FORMULA = /^'+[=+\-@\t\r]/;
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map((value) => {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(",") + "\r\n";
+}
+
+// Undoes the formula guard toCsvRow adds, so exported files import unchanged
+export function fromCsvCell(cell: string): string {
+  return GUARDED_FORMULA.test(cell) ? cell.slice(1) : cell;
+}
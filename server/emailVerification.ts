@@ -0,0 +1,75 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+import { sendMail, appUrl } from "./mail";
+import type { User } from "@shared/schema";
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Features that can be gated behind a verified email via REQUIRE_VERIFIED_EMAIL,
+// e.g. REQUIRE_VERIFIED_EMAIL=checkout,reviews
+export type VerifiedEmailFeature = "checkout" | "reviews";
+
+export async function sendVerificationEmail(user: Pick<User, "id" | "email" | "fullName">): Promise<void> {
+  if (!user.email) {
+    throw new Error("This account has no email address");
+  }
+
+  const { token, tokenHash } = generateToken();
+
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+  });
+
+  const link = appUrl(`/api/auth/verify-email/${token}`);
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text: [
+      `Hi ${user.fullName || "there"},`,
+      "",
+      "Please confirm your email address by opening the link below:",
+      link,
+      "",
+      "The link expires in 24 hours. If you did not create an account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Redeems a verification token and marks the owner's email as verified
+ */
+export async function verifyEmailToken(token: string): Promise<User | undefined> {
+  const record = await storage.consumeEmailVerificationToken(hashToken(token));
+  if (!record) return undefined;
+
+  return storage.markEmailVerified(record.userId);
+}
+
+export function isVerificationRequired(feature: VerifiedEmailFeature): boolean {
+  const features = (process.env.REQUIRE_VERIFIED_EMAIL || "")
+    .split(",")
+    .map((f) => f.trim())
+    .filter(Boolean);
+  return features.includes(feature);
+}
+
+/**
+ * Blocks unverified users from a feature when REQUIRE_VERIFIED_EMAIL lists it
+ */
+export function requireVerifiedEmail(feature: VerifiedEmailFeature) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isVerificationRequired(feature)) {
+      return next();
+    }
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!req.user.emailVerified) {
+      return res.status(403).json({ error: "Please verify your email address first", code: "email_unverified" });
+    }
+    next();
+  };
+}
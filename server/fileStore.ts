@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+
+export interface StoredFile {
+  key: string;
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Where uploaded files live. Keys are slash-separated paths such as
+ * "images/<id>/640.webp"; put() returns the URL browsers should load.
+ */
+export interface FileStore {
+  put(file: StoredFile): Promise<string>;
+  delete(key: string): Promise<void>;
+}
+
+// URL prefix the server serves LocalFileStore files from
+export const LOCAL_UPLOADS_PATH = "/uploads";
+
+/**
+ * Keeps files on the server's disk, served by express.static. Fine for a
+ * single instance; anything load-balanced needs a shared store such as S3.
+ */
+export class LocalFileStore implements FileStore {
+  constructor(readonly directory: string) {}
+
+  private pathFor(key: string): string {
+    const resolved = path.resolve(this.directory, key);
+    if (!resolved.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(file: StoredFile): Promise<string> {
+    const target = this.pathFor(file.key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, file.body);
+    return `${LOCAL_UPLOADS_PATH}/${file.key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+}
+
+function createFileStoreFromEnv(): FileStore {
+  switch (process.env.FILE_STORE) {
+    case "local":
+    default:
+      return new LocalFileStore(process.env.UPLOAD_DIR || path.resolve(process.cwd(), ".uploads"));
+  }
+}
+
+let fileStore: FileStore = createFileStoreFromEnv();
+
+/**
+ * Swap the store, e.g. for S3 when running more than one instance
+ */
+export function setFileStore(next: FileStore) {
+  fileStore = next;
+}
+
+export function getFileStore(): FileStore {
+  return fileStore;
+}
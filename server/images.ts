@@ -0,0 +1,72 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { imageFormats, type ImageFormat, type ImageRendition, type InsertImageAsset } from "@shared/schema";
+import { getFileStore } from "./fileStore";
+
+// Rendition widths in px; sources narrower than a width skip it rather than upscale
+export const RENDITION_WIDTHS = [320, 640, 960, 1280, 1920];
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif"];
+
+const PLACEHOLDER_WIDTH = 16;
+const QUALITY = { avif: 50, webp: 78 } as const;
+
+export class ImageUploadError extends Error {}
+
+async function encode(source: Buffer, format: ImageFormat, width: number): Promise<Buffer> {
+  // rotate() applies the EXIF orientation before the metadata is stripped
+  const resized = sharp(source).rotate().resize({ width, withoutEnlargement: true });
+  return format === "avif"
+    ? resized.avif({ quality: QUALITY.avif }).toBuffer()
+    : resized.webp({ quality: QUALITY.webp }).toBuffer();
+}
+
+async function blurPlaceholder(source: Buffer): Promise<string> {
+  const tiny = await sharp(source).rotate().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+  return `data:image/webp;base64,${tiny.toString("base64")}`;
+}
+
+/**
+ * Decodes an uploaded image, writes AVIF and WebP renditions at each width up
+ * to the original's, and returns the row to record in image_assets.
+ */
+export async function processImageUpload(source: Buffer, uploadedBy: string | null): Promise<InsertImageAsset> {
+  let width: number | undefined;
+  let height: number | undefined;
+  try {
+    const metadata = await sharp(source).metadata();
+    // Quarter-turn EXIF orientations swap the stored dimensions
+    const turned = (metadata.orientation ?? 1) >= 5;
+    width = turned ? metadata.height : metadata.width;
+    height = turned ? metadata.width : metadata.height;
+  } catch {
+    throw new ImageUploadError("The file is not a readable image");
+  }
+  if (!width || !height) {
+    throw new ImageUploadError("The file is not a readable image");
+  }
+
+  const widths = RENDITION_WIDTHS.filter((candidate) => candidate < width!);
+  widths.push(Math.min(width, RENDITION_WIDTHS[RENDITION_WIDTHS.length - 1]));
+
+  const store = getFileStore();
+  const folder = `images/${randomUUID()}`;
+  const renditions: ImageRendition[] = [];
+  for (const format of imageFormats) {
+    for (const renditionWidth of widths) {
+      const body = await encode(source, format, renditionWidth);
+      const url = await store.put({ key: `${folder}/${renditionWidth}.${format}`, body, contentType: `image/${format}` });
+      renditions.push({ format, width: renditionWidth, url });
+    }
+  }
+
+  const largest = renditions.filter((rendition) => rendition.format === "webp").pop()!;
+  return {
+    url: largest.url,
+    width: largest.width,
+    height: Math.round((height * largest.width) / width),
+    placeholder: await blurPlaceholder(source),
+    renditions,
+    uploadedBy,
+  };
+}
@@ -1,8 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { bootstrapAdminFromEnv } from "./admin";
+import { storage } from "./storage";
+import { scheduleRecommendationRefresh } from "./recommendations";
 
 const app = express();
+// Catalog imports are far bigger than any other request body; this runs first so the defaults below skip them
+app.use(
+  "/api/admin/products/import",
+  express.json({ limit: "10mb" }),
+  express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -39,6 +48,23 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  try {
+    const admin = await bootstrapAdminFromEnv();
+    if (admin) {
+      log(`admin account ready: ${admin.email}`);
+    }
+  } catch (error) {
+    log(`admin bootstrap failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    await storage.ensureSearchIndexes();
+  } catch (error) {
+    log(`search index setup failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  scheduleRecommendationRefresh(log);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
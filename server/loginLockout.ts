@@ -0,0 +1,44 @@
+import { getRateLimitStore } from "./rateLimit";
+
+export const LOCKOUT_THRESHOLD = 5;
+export const LOCKOUT_BASE_MS = 60 * 1000;
+export const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+// Failures are remembered for a day, so each lockout after the threshold doubles
+export const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function accountKey(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Returns when the account's lockout ends, or null if it can sign in
+ */
+export async function getLockout(email: string): Promise<Date | null> {
+  const lock = await getRateLimitStore().get(`login-lock:${accountKey(email)}`);
+  return lock ? lock.resetAt : null;
+}
+
+/**
+ * Records a failed password attempt. From the LOCKOUT_THRESHOLD-th failure on,
+ * the account is locked for 1, 2, 4, ... minutes, capped at an hour.
+ */
+export async function recordFailedLogin(email: string): Promise<Date | null> {
+  const store = getRateLimitStore();
+  const key = accountKey(email);
+  const failures = await store.increment(`login-failures:${key}`, FAILURE_WINDOW_MS);
+  if (failures.count < LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  const lockMs = Math.min(LOCKOUT_BASE_MS * 2 ** (failures.count - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  await store.reset(`login-lock:${key}`);
+  const lock = await store.increment(`login-lock:${key}`, lockMs);
+  return lock.resetAt;
+}
+
+export async function clearFailedLogins(email: string): Promise<void> {
+  const store = getRateLimitStore();
+  const key = accountKey(email);
+  await store.reset(`login-failures:${key}`);
+  await store.reset(`login-lock:${key}`);
+}
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs every message to the server console. Default for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    log(`to=${message.to} subject="${message.subject}"\n${message.text}`, "mail");
+  }
+}
+
+/**
+ * Writes each message as a JSON file so links can be opened from disk.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+    log(`wrote "${message.subject}" for ${message.to} to ${fileName}`, "mail");
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileMailTransport(process.env.MAIL_DIR || path.resolve(process.cwd(), ".mail"));
+    case "console":
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+let transport: MailTransport = createTransportFromEnv();
+
+/**
+ * Swap the transport, e.g. for a real provider in production
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
+
+export function appUrl(pathname: string): string {
+  const base = process.env.APP_URL || "http://localhost:5000";
+  return new URL(pathname, base).toString();
+}
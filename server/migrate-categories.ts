@@ -0,0 +1,14 @@
+// Usage: npm run db:migrate-categories (run before db:push on databases created before the category tree)
+import { storage } from "./storage";
+
+storage.migrateCategoryTree()
+  .then((migrated) => {
+    console.log(migrated
+      ? "Products now reference categories by id"
+      : "Nothing to migrate: products.category has already been replaced");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,14 @@
+// Usage: npm run db:migrate-product-slugs (run before db:push on databases created before product slugs)
+import { storage } from "./storage";
+
+storage.migrateProductSlugs()
+  .then((migrated) => {
+    console.log(migrated
+      ? "Every product now has a slug"
+      : "Nothing to migrate: products.slug already exists");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,78 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { hashToken } from "./tokens";
+import { sendSms } from "./sms";
+
+export const OTP_TTL_MS = 5 * 60 * 1000;
+export const OTP_RESEND_INTERVAL_MS = 60 * 1000;
+export const OTP_MAX_PER_HOUR = 5;
+export const OTP_MAX_ATTEMPTS = 5;
+
+export class OtpError extends Error {
+  constructor(message: string, public readonly status = 400, public readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Normalises Indian mobile numbers to +91XXXXXXXXXX. Accepts 10-digit numbers
+ * with an optional +91, 91 or 0 prefix and common separators.
+ */
+export function normalizeIndianMobile(input: string): string | null {
+  const digits = input.replace(/[\s\-()]/g, "").replace(/^(\+91|91|0)(?=\d{10}$)/, "");
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+function hashCode(phone: string, code: string): string {
+  return hashToken(`${phone}:${code}`);
+}
+
+export async function requestOtp(phone: string): Promise<{ expiresAt: Date }> {
+  const latest = await storage.getLatestPhoneOtp(phone);
+  if (latest?.createdAt) {
+    const sinceLast = Date.now() - latest.createdAt.getTime();
+    if (sinceLast < OTP_RESEND_INTERVAL_MS) {
+      throw new OtpError("Please wait before requesting another code", 429, OTP_RESEND_INTERVAL_MS - sinceLast);
+    }
+  }
+
+  const sentLastHour = await storage.countPhoneOtpsSince(phone, new Date(Date.now() - 60 * 60 * 1000));
+  if (sentLastHour >= OTP_MAX_PER_HOUR) {
+    throw new OtpError("Too many codes requested. Please try again later", 429, 60 * 60 * 1000);
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+  await storage.createPhoneOtp({ phone, codeHash: hashCode(phone, code), expiresAt });
+
+  await sendSms({
+    to: phone,
+    body: `${code} is your Interoo sign-in code. It expires in 5 minutes. Do not share it with anyone.`,
+  });
+
+  return { expiresAt };
+}
+
+/**
+ * Checks a code against the most recent unexpired OTP for the phone.
+ * Each wrong guess counts against the code; it is void after OTP_MAX_ATTEMPTS.
+ */
+export async function verifyOtp(phone: string, code: string): Promise<void> {
+  const otp = await storage.getLatestPhoneOtp(phone);
+  if (!otp || otp.consumedAt || otp.expiresAt.getTime() <= Date.now()) {
+    throw new OtpError("Code has expired. Please request a new one");
+  }
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) {
+    throw new OtpError("Too many incorrect attempts. Please request a new code", 429);
+  }
+
+  if (otp.codeHash !== hashCode(phone, code)) {
+    await storage.incrementPhoneOtpAttempts(otp.id);
+    throw new OtpError("Incorrect code");
+  }
+
+  const consumed = await storage.consumePhoneOtp(otp.id);
+  if (!consumed) {
+    throw new OtpError("Code has already been used");
+  }
+}
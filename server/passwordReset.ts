@@ -0,0 +1,53 @@
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+import { sendMail, appUrl } from "./mail";
+import type { User } from "@shared/schema";
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Emails a reset link when the account exists. Callers should respond the same
+ * way either way so the endpoint cannot be used to discover accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user?.email) return;
+
+  const { token, tokenHash } = generateToken();
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+  });
+
+  const link = appUrl(`/reset-password?token=${token}`);
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      `Hi ${user.fullName || "there"},`,
+      "",
+      "We received a request to reset your password. Open the link below to choose a new one:",
+      link,
+      "",
+      "The link expires in 1 hour and can only be used once. If you did not ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Sets a new password from a reset token, then signs the user out everywhere
+ * and voids any other outstanding reset links.
+ */
+export async function resetPassword(token: string, password: string): Promise<User | undefined> {
+  const record = await storage.consumePasswordResetToken(hashToken(token));
+  if (!record) return undefined;
+
+  const user = await storage.updateUser(record.userId, {
+    password: await bcrypt.hash(password, 10),
+  });
+  await storage.invalidatePasswordResetTokens(record.userId);
+  await storage.deleteUserSessions(record.userId);
+  return user;
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import type { HomeRail, Product } from "@shared/schema";
+import { storage, type StyleProfile } from "./storage";
+import { getRelatedProducts } from "./recommendations";
+
+export const RAIL_SIZE = 12;
+// How many recent views and wishlisted products are considered
+export const MAX_SIGNALS = 20;
+const STYLE_TAGS = 5;
+const STYLE_CATEGORIES = 3;
+// A wishlisted product says more about taste than one that was only opened
+const WISHLIST_WEIGHT = 2;
+const BESTSELLER_WINDOW_DAYS = 90;
+
+export interface ShopperSignals {
+  // Most recent first
+  viewed: Product[];
+  wishlisted: Product[];
+}
+
+// Comma-separated product ids from a query string; anything that isn't a uuid is dropped
+export function parseProductIds(value: unknown): string[] {
+  if (typeof value !== "string") return [];
+  return value.split(",")
+    .filter((id) => z.string().uuid().safeParse(id).success)
+    .slice(0, MAX_SIGNALS);
+}
+
+async function productsInOrder(ids: string[]): Promise<Product[]> {
+  const found = new Map((await storage.getProductsByIds(ids)).map((product) => [product.id, product]));
+  return ids.filter((id) => found.has(id)).map((id) => found.get(id)!);
+}
+
+function withoutDuplicates(productList: Product[]): Product[] {
+  return productList.filter((product, index) => productList.findIndex((other) => other.id === product.id) === index);
+}
+
+/**
+ * Signed-in shoppers' saved views and wishlist, topped up with whatever the
+ * browser remembers from before it was signed in. Guests only have the latter.
+ */
+export async function shopperSignals(userId: string | null, clientViewedIds: string[], clientWishlistIds: string[]): Promise<ShopperSignals> {
+  const [savedViews, savedWishlist, clientViewed, clientWishlisted] = await Promise.all([
+    userId ? storage.getRecentlyViewedProducts(userId, MAX_SIGNALS) : Promise.resolve([]),
+    userId ? storage.getWishlistItems(userId) : Promise.resolve([]),
+    productsInOrder(clientViewedIds),
+    productsInOrder(clientWishlistIds),
+  ]);
+  const wishlistIds = savedWishlist.map((item) => item.productId).filter((id): id is string => !!id);
+  const savedWishlisted = await productsInOrder(wishlistIds.slice(0, MAX_SIGNALS));
+  return {
+    viewed: withoutDuplicates([...savedViews, ...clientViewed]).slice(0, MAX_SIGNALS),
+    wishlisted: withoutDuplicates([...savedWishlisted, ...clientWishlisted]).slice(0, MAX_SIGNALS),
+  };
+}
+
+function mostFrequent(weights: Map<string, number>, limit: number): string[] {
+  return Array.from(weights.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+function styleProfile({ viewed, wishlisted }: ShopperSignals): StyleProfile {
+  const tagWeights = new Map<string, number>();
+  const categoryWeights = new Map<string, number>();
+  const add = (product: Product, weight: number) => {
+    (product.tags ?? []).forEach((tag) => tagWeights.set(tag, (tagWeights.get(tag) ?? 0) + weight));
+    categoryWeights.set(product.categoryId, (categoryWeights.get(product.categoryId) ?? 0) + weight);
+  };
+  viewed.forEach((product) => add(product, 1));
+  wishlisted.forEach((product) => add(product, WISHLIST_WEIGHT));
+  return { tags: mostFrequent(tagWeights, STYLE_TAGS), categoryIds: mostFrequent(categoryWeights, STYLE_CATEGORIES) };
+}
+
+async function bestsellersRail(): Promise<HomeRail> {
+  const since = new Date(Date.now() - BESTSELLER_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  return { kind: "bestsellers", title: "Bestsellers", products: await storage.getBestsellers(since, RAIL_SIZE) };
+}
+
+/**
+ * The home page rails for a shopper: more like the last product they opened,
+ * what they opened recently, and picks matching the tags and categories of
+ * everything they viewed or wishlisted. Shoppers we know nothing about yet
+ * get bestsellers instead.
+ */
+export async function buildHomeRails(signals: ShopperSignals): Promise<HomeRail[]> {
+  const { viewed, wishlisted } = signals;
+  if (viewed.length === 0 && wishlisted.length === 0) {
+    return [await bestsellersRail()];
+  }
+
+  const seen = new Set([...viewed, ...wishlisted].map((product) => product.id));
+  const rails: HomeRail[] = [];
+
+  if (viewed.length > 0) {
+    const anchor = viewed[0];
+    const related = (await getRelatedProducts(anchor)).filter((product) => !seen.has(product.id));
+    rails.push({ kind: "because_you_viewed", title: `Because you viewed ${anchor.name}`, products: related });
+    rails.push({ kind: "recently_viewed", title: "Recently viewed", products: viewed.slice(0, RAIL_SIZE) });
+    related.forEach((product) => seen.add(product.id));
+  }
+
+  const picks = await storage.getStylePicks(styleProfile(signals), Array.from(seen), RAIL_SIZE);
+  rails.push({ kind: "style_picks", title: "Picks for your style", products: picks });
+
+  const filled = rails.filter((rail) => rail.products.length > 0);
+  return filled.length > 0 ? filled : [await bestsellersRail()];
+}
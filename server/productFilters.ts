@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { and, asc, desc, eq, gt, gte, lt, lte, isNotNull, inArray, arrayOverlaps, sql, type SQL } from "drizzle-orm";
+import { products, productSortOptions, type ProductSort, type ProductSpecKey } from "@shared/schema";
+import { toPrefixTsQuery, searchFragments } from "./search";
+import { categorySubtreeIds } from "./categoryTree";
+
+// Price buckets for the sidebar, in rupees. The last bucket is open-ended.
+export const PRICE_BUCKETS: { min: number; max: number | null }[] = [
+  { min: 0, max: 5000 },
+  { min: 5000, max: 15000 },
+  { min: 15000, max: 30000 },
+  { min: 30000, max: 60000 },
+  { min: 60000, max: null },
+];
+
+export const MAX_TAG_FACETS = 30;
+
+// Query strings arrive as text: "true"/"false" for flags, comma-separated lists for tags
+const booleanParam = z.enum(["true", "false"]).transform((value) => value === "true");
+const listParam = z.union([z.string(), z.array(z.string())]).transform((value) =>
+  (Array.isArray(value) ? value : value.split(",")).map((item) => item.trim()).filter(Boolean),
+);
+
+export const productQuerySchema = z.object({
+  // Slug (or name) of a category; products in its subcategories are included
+  category: z.string().optional(),
+  featured: booleanParam.optional(),
+  search: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(productSortOptions).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  inStock: booleanParam.optional(),
+  onSale: booleanParam.optional(),
+  tags: listParam.optional(),
+  // Spec filters; dimensions are upper bounds in centimetres so shoppers can filter by the space they have
+  maxWidth: z.coerce.number().positive().optional(),
+  maxDepth: z.coerce.number().positive().optional(),
+  maxHeight: z.coerce.number().positive().optional(),
+  material: listParam.optional(),
+  minSeating: z.coerce.number().int().min(1).optional(),
+  assemblyRequired: booleanParam.optional(),
+  facets: booleanParam.optional(),
+});
+
+export type ProductFilters = Omit<z.infer<typeof productQuerySchema>, "facets">;
+
+/**
+ * Cursors are opaque to clients but simply encode the offset of the next page,
+ * which keeps every sort order pageable, including search relevance.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`o:${offset}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  const match = /^o:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? Number(match[1]) : null;
+}
+
+// Reads from the products.specs jsonb column. Keys are inlined because a bound
+// parameter makes ->> ambiguous between its text and integer forms.
+const textSpec = (key: ProductSpecKey) => sql`(${products.specs}->>${sql.raw(`'${key}'`)})`;
+const numericSpec = (key: ProductSpecKey) => sql`${textSpec(key)}::numeric`;
+
+const discountRatio = sql`coalesce((${products.originalPrice} - ${products.price}) / nullif(${products.originalPrice}, 0), 0)`;
+
+/**
+ * ORDER BY for a sort option, always ending in the id so pages never overlap.
+ * Relevance ordering needs the search rank and is handled by the caller.
+ */
+export function productSortOrder(sort: Exclude<ProductSort, "relevance">): SQL[] {
+  const byColumns: Record<typeof sort, SQL[]> = {
+    newest: [desc(products.createdAt)],
+    price_asc: [asc(products.price)],
+    price_desc: [desc(products.price)],
+    rating: [desc(sql`coalesce(${products.rating}, 0)`), desc(sql`coalesce(${products.reviewCount}, 0)`)],
+    popularity: [desc(sql`coalesce(${products.reviewCount}, 0)`), desc(sql`coalesce(${products.rating}, 0)`)],
+    discount: [desc(discountRatio)],
+  };
+  return [...byColumns[sort], asc(products.id)];
+}
+
+/**
+ * Facets are counted with every filter except their own, so picking one
+ * category still shows how many products the other categories have.
+ */
+export type FacetDimension = "category" | "tags" | "price";
+
+export function productFilterConditions(filters: ProductFilters = {}, exclude?: FacetDimension): SQL[] {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (filters.category && exclude !== "category") {
+    conditions.push(sql`${products.categoryId} IN ${categorySubtreeIds(filters.category)}`);
+  }
+  if (filters.featured !== undefined) {
+    conditions.push(eq(products.featured, filters.featured));
+  }
+  if (exclude !== "price") {
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(products.price, filters.minPrice.toString()));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(products.price, filters.maxPrice.toString()));
+    }
+  }
+  if (filters.minRating !== undefined) {
+    conditions.push(gte(products.rating, filters.minRating.toString()));
+  }
+  if (filters.inStock) {
+    conditions.push(gt(products.stock, 0));
+  }
+  if (filters.onSale) {
+    conditions.push(and(isNotNull(products.originalPrice), lt(products.price, products.originalPrice)));
+  }
+  if (filters.tags?.length && exclude !== "tags") {
+    conditions.push(arrayOverlaps(products.tags, filters.tags));
+  }
+  if (filters.maxWidth !== undefined) {
+    conditions.push(sql`${numericSpec("widthCm")} <= ${filters.maxWidth}`);
+  }
+  if (filters.maxDepth !== undefined) {
+    conditions.push(sql`${numericSpec("depthCm")} <= ${filters.maxDepth}`);
+  }
+  if (filters.maxHeight !== undefined) {
+    conditions.push(sql`${numericSpec("heightCm")} <= ${filters.maxHeight}`);
+  }
+  if (filters.material?.length) {
+    conditions.push(inArray(sql`lower(${textSpec("material")})`, filters.material.map((material) => material.toLowerCase())));
+  }
+  if (filters.minSeating !== undefined) {
+    conditions.push(sql`${numericSpec("seatingCapacity")} >= ${filters.minSeating}`);
+  }
+  if (filters.assemblyRequired !== undefined) {
+    conditions.push(sql`${textSpec("assemblyRequired")}::boolean = ${filters.assemblyRequired}`);
+  }
+
+  const term = filters.search?.trim();
+  const tsQuery = term ? toPrefixTsQuery(term) : null;
+  if (term && tsQuery) {
+    conditions.push(searchFragments(term, tsQuery).matches);
+  }
+
+  return conditions.filter((condition): condition is SQL => condition !== undefined);
+}
@@ -0,0 +1,39 @@
+import {
+  DEFAULT_SPEC_TEMPLATE,
+  type Category,
+  type ProductSpecs,
+  type SpecTemplateField,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { categoryPath } from "./categoryTree";
+
+/**
+ * The nearest template up the category tree, so "Sectionals" uses the
+ * "Sofas" template unless it has its own. Falls back to the default template.
+ */
+export function specTemplateFor(categories: Category[], categoryId: string): SpecTemplateField[] {
+  const withTemplate = categoryPath(categories, categoryId)
+    .reverse()
+    .find((category) => category.specTemplate?.length);
+  return withTemplate?.specTemplate ?? DEFAULT_SPEC_TEMPLATE;
+}
+
+export async function getSpecTemplate(categoryId: string): Promise<SpecTemplateField[]> {
+  return specTemplateFor(await storage.getCategories(), categoryId);
+}
+
+/**
+ * Checks a product's specs against its category template and returns a message
+ * naming the required specs that are missing, or null when nothing is missing.
+ */
+export async function missingSpecsError(categoryId: string, specs: ProductSpecs | undefined): Promise<string | null> {
+  return missingSpecsMessage(await getSpecTemplate(categoryId), specs);
+}
+
+// Synchronous core of missingSpecsError, for callers that already hold the template
+export function missingSpecsMessage(template: SpecTemplateField[], specs: ProductSpecs | undefined): string | null {
+  const missing = template
+    .filter((field) => field.required && specs?.[field.key] === undefined)
+    .map((field) => field.label);
+  return missing.length > 0 ? `Missing required specifications: ${missing.join(", ")}` : null;
+}
@@ -0,0 +1,128 @@
+import type { Request, Response, NextFunction } from "express";
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Fixed-window hit counter. The in-memory store is fine for a single server;
+ * swap in a shared store (e.g. Redis) with setRateLimitStore when scaling out.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  get(key: string): Promise<RateLimitHit | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    // Drop expired windows so the map doesn't grow with every IP we've seen
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      current.count += 1;
+      return { ...current };
+    }
+
+    const hit = { count: 1, resetAt: new Date(now + windowMs) };
+    this.hits.set(key, hit);
+    return { ...hit };
+  }
+
+  async get(key: string): Promise<RateLimitHit | undefined> {
+    const hit = this.hits.get(key);
+    if (!hit || hit.resetAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  private sweep() {
+    const now = Date.now();
+    this.hits.forEach((hit, key) => {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+function retryAfterSeconds(resetAt: Date): number {
+  return Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+}
+
+export function sendTooManyRequests(res: Response, resetAt: Date, message: string) {
+  const retryAfter = retryAfterSeconds(resetAt);
+  res.set("Retry-After", retryAfter.toString());
+  return res.status(429).json({ error: message, retryAfter });
+}
+
+export interface RateLimitOptions {
+  /** Namespaces the counters, e.g. "login:ip" */
+  name: string;
+  windowMs: number;
+  max: number;
+  /**
+   * Which bucket a request falls into. Defaults to the client IP.
+   * Returning undefined skips limiting for that request.
+   */
+  key?: (req: Request) => string | undefined;
+  message?: string;
+}
+
+export const byIp = (req: Request) => req.ip;
+
+/** Keys by the signed-in user, or by the email in the body for login-style routes */
+export const byAccount = (req: Request) => {
+  if (req.user) return `user:${req.user.id}`;
+  const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+  return email ? `email:${email}` : undefined;
+};
+
+export function rateLimit(options: RateLimitOptions) {
+  const { name, windowMs, max, key = byIp, message = "Too many requests. Please try again later" } = options;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const bucket = key(req);
+    if (!bucket) {
+      return next();
+    }
+
+    try {
+      const hit = await store.increment(`${name}:${bucket}`, windowMs);
+      res.set("RateLimit-Limit", max.toString());
+      res.set("RateLimit-Remaining", Math.max(0, max - hit.count).toString());
+      res.set("RateLimit-Reset", retryAfterSeconds(hit.resetAt).toString());
+
+      if (hit.count > max) {
+        return sendTooManyRequests(res, hit.resetAt, message);
+      }
+      next();
+    } catch (error) {
+      // A broken limiter store shouldn't take the routes down with it
+      console.error(`Rate limiter "${name}" failed:`, error);
+      next();
+    }
+  };
+}
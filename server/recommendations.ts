@@ -0,0 +1,185 @@
+import type { Category, InsertProductRecommendation, Product } from "@shared/schema";
+import { storage, type RecommendationSignals } from "./storage";
+
+export const RELATED_LIMIT = 12;
+export const BOUGHT_TOGETHER_LIMIT = 8;
+// A single shared order is coincidence more often than not
+const MIN_SHARED_ORDERS = 2;
+// Products more than this many times apart in price aren't alternatives to each other
+const PRICE_BAND_RATIO = 3;
+const RELATED_WEIGHTS = { category: 0.45, tags: 0.35, price: 0.2 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SignalProduct = RecommendationSignals["products"][number];
+
+export interface RecomputeResult {
+  products: number;
+  related: number;
+  boughtTogether: number;
+}
+
+// 1 for the same category, 0.5 for siblings or a parent and its child, otherwise 0
+function categorySimilarity(a: Category | undefined, b: Category | undefined): number {
+  if (!a || !b) return 0;
+  if (a.id === b.id) return 1;
+  if (a.parentId && a.parentId === b.parentId) return 0.5;
+  if (a.parentId === b.id || b.parentId === a.id) return 0.5;
+  return 0;
+}
+
+// Jaccard index of the two tag lists
+function tagSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter((tag) => b.includes(tag)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+// 1 at the same price, falling to 0 at PRICE_BAND_RATIO times apart
+function priceProximity(a: number, b: number): number {
+  if (a <= 0 || b <= 0) return 0;
+  const ratio = Math.max(a, b) / Math.min(a, b);
+  return Math.max(0, 1 - Math.log(ratio) / Math.log(PRICE_BAND_RATIO));
+}
+
+function topScores(scores: Map<string, number>, limit: number): [string, number][] {
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
+
+/**
+ * Related products: candidates share a category (or a parent/sibling one) or
+ * a tag; price proximity only ranks them, it never makes a product related.
+ */
+function relatedRows(productList: SignalProduct[], categories: Category[]): InsertProductRecommendation[] {
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+  const idsByCategory = new Map<string, string[]>();
+  const idsByTag = new Map<string, string[]>();
+  const addTo = (index: Map<string, string[]>, key: string, id: string) => {
+    const ids = index.get(key);
+    if (ids) ids.push(id);
+    else index.set(key, [id]);
+  };
+  productList.forEach((product) => {
+    addTo(idsByCategory, product.categoryId, product.id);
+    (product.tags ?? []).forEach((tag) => addTo(idsByTag, tag, product.id));
+  });
+  const productById = new Map(productList.map((product) => [product.id, product]));
+
+  // Categories close enough to score: itself, its parent, its children and its siblings
+  const nearbyCategoryIds = (categoryId: string): string[] => {
+    const parentId = categoryById.get(categoryId)?.parentId;
+    return categories
+      .filter((category) => category.id === categoryId
+        || category.id === parentId
+        || category.parentId === categoryId
+        || (parentId && category.parentId === parentId))
+      .map((category) => category.id);
+  };
+
+  const rows: InsertProductRecommendation[] = [];
+  productList.forEach((product) => {
+    const tags = product.tags ?? [];
+    const candidates = new Set<string>();
+    nearbyCategoryIds(product.categoryId).forEach((categoryId) => {
+      (idsByCategory.get(categoryId) ?? []).forEach((id) => candidates.add(id));
+    });
+    tags.forEach((tag) => (idsByTag.get(tag) ?? []).forEach((id) => candidates.add(id)));
+    candidates.delete(product.id);
+
+    const scores = new Map<string, number>();
+    candidates.forEach((id) => {
+      const other = productById.get(id)!;
+      const score = RELATED_WEIGHTS.category * categorySimilarity(categoryById.get(product.categoryId), categoryById.get(other.categoryId))
+        + RELATED_WEIGHTS.tags * tagSimilarity(tags, other.tags ?? [])
+        + RELATED_WEIGHTS.price * priceProximity(Number(product.price), Number(other.price));
+      scores.set(id, score);
+    });
+
+    topScores(scores, RELATED_LIMIT).forEach(([recommendedProductId, score]) => {
+      rows.push({ productId: product.id, recommendedProductId, kind: "related", score });
+    });
+  });
+  return rows;
+}
+
+/**
+ * Customers also bought: the share of a product's orders that also contained
+ * the other product, with ties going to the pair seen in more orders.
+ */
+function boughtTogetherRows(signals: RecommendationSignals): InsertProductRecommendation[] {
+  const ordersByProduct = new Map(signals.orderCounts.map((entry) => [entry.productId, entry.orders]));
+  const scoresByProduct = new Map<string, Map<string, number>>();
+  signals.coPurchases.forEach(({ productId, otherProductId, orders }) => {
+    const confidence = orders / (ordersByProduct.get(productId) ?? orders);
+    const scores = scoresByProduct.get(productId) ?? new Map<string, number>();
+    scores.set(otherProductId, confidence + orders / 1e6);
+    scoresByProduct.set(productId, scores);
+  });
+
+  const rows: InsertProductRecommendation[] = [];
+  scoresByProduct.forEach((scores, productId) => {
+    topScores(scores, BOUGHT_TOGETHER_LIMIT).forEach(([recommendedProductId, score]) => {
+      rows.push({ productId, recommendedProductId, kind: "bought_together", score });
+    });
+  });
+  return rows;
+}
+
+let running: Promise<RecomputeResult> | null = null;
+
+/**
+ * Rebuilds every product's related and bought-together lists from the
+ * current catalog and order history. Overlapping calls share one run.
+ */
+export function recomputeRecommendations(): Promise<RecomputeResult> {
+  if (!running) {
+    running = (async () => {
+      const [signals, categories] = await Promise.all([
+        storage.getRecommendationSignals(MIN_SHARED_ORDERS),
+        storage.getCategories(),
+      ]);
+      const related = relatedRows(signals.products, categories);
+      const boughtTogether = boughtTogetherRows(signals);
+      await storage.replaceProductRecommendations([...related, ...boughtTogether]);
+      return { products: signals.products.length, related: related.length, boughtTogether: boughtTogether.length };
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// Products added since the last rebuild have no list yet; fall back to their category's nearest prices
+export async function getRelatedProducts(product: Product): Promise<Product[]> {
+  const related = await storage.getRecommendedProducts(product.id, "related", RELATED_LIMIT);
+  return related.length > 0 ? related : storage.getSimilarlyPricedProducts(product, RELATED_LIMIT);
+}
+
+export async function getBoughtTogetherProducts(product: Product): Promise<Product[]> {
+  return storage.getRecommendedProducts(product.id, "bought_together", BOUGHT_TOGETHER_LIMIT);
+}
+
+/**
+ * Runs the rebuild every night at RECOMMENDATIONS_HOUR (server local time,
+ * default 3). With several instances, set RECOMMENDATIONS_SCHEDULE=off on all
+ * but one, or on all of them and run `npm run recommendations:compute` from cron.
+ */
+export function scheduleRecommendationRefresh(log: (message: string) => void) {
+  if (process.env.RECOMMENDATIONS_SCHEDULE === "off") return;
+
+  const hour = Number(process.env.RECOMMENDATIONS_HOUR ?? 3);
+  const run = () => {
+    recomputeRecommendations()
+      .then((result) => log(`recommendations rebuilt: ${result.related} related, ${result.boughtTogether} bought together`))
+      .catch((error) => log(`recommendations rebuild failed: ${error instanceof Error ? error.message : error}`));
+  };
+
+  const next = new Date();
+  next.setHours(hour, 0, 0, 0);
+  if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+  setTimeout(() => {
+    run();
+    setInterval(run, DAY_MS).unref();
+  }, next.getTime() - Date.now()).unref();
+}
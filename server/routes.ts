@@ -1,12 +1,47 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import bcrypt from "bcryptjs";
+import multer from "multer";
 import Stripe from "stripe";
+import { z } from "zod";
 import { storage } from "./storage";
+import {
+  setupAuth,
+  requireAuth,
+  establishSession,
+  extendSession,
+  destroySession,
+  getSessionInfo,
+  toSafeUser,
+} from "./auth";
+import { isOwner, hasRole, claimsOtherUser, requireSameUser, requireRole } from "./authorization";
+import { sendVerificationEmail, verifyEmailToken, requireVerifiedEmail } from "./emailVerification";
+import { requestPasswordReset, resetPassword } from "./passwordReset";
+import { normalizeIndianMobile, requestOtp, verifyOtp, OtpError } from "./otp";
+import { rateLimit, byAccount, sendTooManyRequests } from "./rateLimit";
+import { getLockout, recordFailedLogin, clearFailedLogins } from "./loginLockout";
+import { normalizeSearchQuery } from "./search";
+import { productQuerySchema } from "./productFilters";
+import { specTemplateFor, missingSpecsError } from "./productSpecs";
+import { buildCategoryTree, categoryPath, toCrumbs, createsCycle } from "./categoryTree";
+import { slugify, uniqueSlug } from "./slugs";
+import { buildAccountExport, exportFilename, deleteAccount, ACCOUNT_DELETION_CONFIRMATION } from "./accountData";
+import { importCatalog, streamCatalogExport, catalogFilename, CatalogImportError } from "./catalogTransfer";
+import { getFileStore, LocalFileStore, LOCAL_UPLOADS_PATH } from "./fileStore";
+import { processImageUpload, ImageUploadError, MAX_UPLOAD_BYTES, ACCEPTED_IMAGE_TYPES } from "./images";
+import { buildSitemap, buildRobotsTxt } from "./seo";
+import { recomputeRecommendations, getRelatedProducts, getBoughtTogetherProducts } from "./recommendations";
+import { buildHomeRails, shopperSignals, parseProductIds } from "./personalization";
 import {
   insertUserSchema,
+  registerUserSchema,
+  insertAddressSchema,
+  insertRoomProfileSchema,
+  mergeHistorySchema,
   insertProductSchema,
+  insertProductVariantSchema,
   insertCategorySchema,
+  specTemplateFieldSchema,
   insertOrderSchema,
   insertOrderItemSchema,
   insertReviewSchema,
@@ -14,6 +49,8 @@ import {
   insertWishlistItemSchema,
   insertTransactionSchema,
   insertTransactionEventSchema,
+  orderStatuses,
+  userRoles,
 } from "@shared/schema";
 
 // Initialize Stripe with dummy key for development
@@ -21,11 +58,95 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_dummy_key_fo
   apiVersion: "2023-10-16",
 });
 
+// Throttles for routes that attract credential stuffing and card testing
+const loginLimits = [
+  rateLimit({ name: "login:ip", windowMs: 15 * 60 * 1000, max: 20, message: "Too many sign-in attempts. Please try again later" }),
+  rateLimit({ name: "login:account", windowMs: 15 * 60 * 1000, max: 10, key: byAccount, message: "Too many sign-in attempts. Please try again later" }),
+];
+const registerLimits = [
+  rateLimit({ name: "register:ip", windowMs: 60 * 60 * 1000, max: 5, message: "Too many accounts created from this network. Please try again later" }),
+];
+// Per-number limits live in requestOtp/verifyOtp; these stop one client cycling through numbers
+const otpRequestLimits = [
+  rateLimit({ name: "otp-request:ip", windowMs: 60 * 60 * 1000, max: 10, message: "Too many codes requested from this network. Please try again later" }),
+];
+const otpVerifyLimits = [
+  rateLimit({ name: "otp-verify:ip", windowMs: 15 * 60 * 1000, max: 20, message: "Too many sign-in attempts. Please try again later" }),
+];
+// Verification and reset emails; the reset route needs no sign-in, so anyone could aim it at an inbox
+const emailLimits = [
+  rateLimit({ name: "email:ip", windowMs: 60 * 60 * 1000, max: 10, message: "Too many emails requested. Please try again later" }),
+  rateLimit({ name: "email:account", windowMs: 60 * 60 * 1000, max: 3, key: byAccount, message: "Too many emails requested. Please try again later" }),
+];
+const paymentLimits = [
+  rateLimit({ name: "payment:ip", windowMs: 60 * 1000, max: 10, message: "Too many payment attempts. Please wait a moment and try again" }),
+  rateLimit({ name: "payment:account", windowMs: 10 * 60 * 1000, max: 20, key: byAccount, message: "Too many payment attempts. Please wait a moment and try again" }),
+];
+
+const MAX_IMAGES_PER_UPLOAD = 10;
+// Browsing history entries returned by /api/me/history, matching what the browser keeps for guests
+const MAX_HISTORY_ITEMS = 50;
+
+// Multipart "images" field held in memory; sharp needs the whole file anyway
+const imageFiles = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_IMAGES_PER_UPLOAD },
+  fileFilter: (_req, file, callback) => {
+    if (ACCEPTED_IMAGE_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new ImageUploadError(`${file.originalname} is not a JPEG, PNG, WebP or AVIF image`));
+    }
+  },
+}).array("images", MAX_IMAGES_PER_UPLOAD);
+
+// Turns multer's size and count errors into 400s instead of leaving them to the generic error handler
+const receiveImages: RequestHandler = (req, res, next) => {
+  imageFiles(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : "Upload failed" });
+    }
+    next();
+  });
+};
+
+/**
+ * Checks that a cart or wishlist line points at a real variant of its product.
+ * Products with variants can only be bought as one of them, so a missing
+ * variant is an error there. Returns an error message, or null when valid.
+ */
+async function variantError(productId: string | null | undefined, variantId: string | null | undefined): Promise<string | null> {
+  if (!productId) return null;
+  if (variantId) {
+    const variant = await storage.getProductVariant(variantId);
+    return variant && variant.productId === productId ? null : "Variant does not belong to this product";
+  }
+  const variants = await storage.getProductVariants(productId);
+  return variants.length > 0 ? "Choose an option before adding this product" : null;
+}
+
+/**
+ * Payment records are keyed by order id and belong to whoever owns the order;
+ * admins can reach any of them. Returns the error to send, or null when allowed.
+ */
+async function orderAccessError(req: Request, orderId: string): Promise<{ status: number; error: string } | null> {
+  const order = z.string().uuid().safeParse(orderId).success ? await storage.getOrder(orderId) : undefined;
+  if (!order) {
+    return { status: 404, error: "Order not found" };
+  }
+  if (!isOwner(req, order.userId) && !hasRole(req, "admin")) {
+    return { status: 403, error: "You do not have access to this order" };
+  }
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   // Authentication routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", ...registerLimits, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const userData = registerUserSchema.parse(req.body);
       
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -42,32 +163,191 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword,
       });
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
-      res.status(201).json({ user: userWithoutPassword });
+      // Verification is best effort; the user can ask for a new link later
+      sendVerificationEmail(user).catch((error) => {
+        console.error("Failed to send verification email:", error);
+      });
+
+      // Sign the new user in straight away
+      await establishSession(req, user);
+      res.status(201).json({ user: toSafeUser(user), session: getSessionInfo(req) });
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : "Invalid data" });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", ...loginLimits, async (req, res) => {
     try {
-      const { email, password } = req.body;
+      const { email, password, rememberMe } = req.body;
+      if (typeof email !== "string" || typeof password !== "string") {
+        return res.status(400).json({ error: "Email and password are required" });
+      }
+
+      const lockedUntil = await getLockout(email);
+      if (lockedUntil) {
+        return sendTooManyRequests(res, lockedUntil, "Too many failed sign-in attempts. Please try again later");
+      }
       
       const user = await storage.getUserByEmail(email);
-      if (!user || !await bcrypt.compare(password, user.password)) {
+      if (!user || !user.password || !await bcrypt.compare(password, user.password)) {
+        const lockout = await recordFailedLogin(email);
+        if (lockout) {
+          return sendTooManyRequests(res, lockout, "Too many failed sign-in attempts. Please try again later");
+        }
         return res.status(401).json({ error: "Invalid credentials" });
       }
       
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      await clearFailedLogins(email);
+      const updatedUser = await storage.recordLogin(user.id);
+      await establishSession(req, updatedUser ?? user, rememberMe === true);
+      res.json({ user: req.user, session: getSessionInfo(req) });
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : "Login failed" });
     }
   });
 
-  app.get("/api/auth/user/:id", async (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await destroySession(req, res);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Logout failed" });
+    }
+  });
+
+  app.post("/api/auth/refresh", requireAuth, async (req, res) => {
+    try {
+      await extendSession(req);
+      res.json({ user: req.user, session: getSessionInfo(req) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to refresh session" });
+    }
+  });
+
+  app.get("/api/auth/session", requireAuth, (req, res) => {
+    res.json({ user: req.user, session: getSessionInfo(req) });
+  });
+
+  app.post("/api/auth/verify-email/request", requireAuth, ...emailLimits, async (req, res) => {
+    try {
+      if (req.user!.emailVerified) {
+        return res.status(400).json({ error: "Email is already verified" });
+      }
+      await sendVerificationEmail(req.user!);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to send verification email" });
+    }
+  });
+
+  app.get("/api/auth/verify-email/:token", async (req, res) => {
+    try {
+      const user = await verifyEmailToken(req.params.token);
+      const verified = !!user;
+
+      // Links are opened from an email client, so browsers get sent back to the app
+      if (req.accepts(["html", "json"]) === "html") {
+        return res.redirect(`/?emailVerified=${verified ? "1" : "0"}`);
+      }
+      if (!user) {
+        return res.status(400).json({ error: "Verification link is invalid or has expired" });
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/request", ...emailLimits, async (req, res) => {
+    try {
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      await requestPasswordReset(email);
+      // Same response whether or not the account exists
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
+    try {
+      const { token, password } = z.object({
+        token: z.string().min(1),
+        password: z.string().min(6, "Password must be at least 6 characters"),
+      }).parse(req.body);
+
+      const user = await resetPassword(token, password);
+      if (!user) {
+        return res.status(400).json({ error: "Reset link is invalid or has expired" });
+      }
+      if (req.session.userId === user.id) {
+        await destroySession(req, res);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to reset password" });
+    }
+  });
+
+  // Phone + OTP sign-in
+  app.post("/api/auth/otp/request", ...otpRequestLimits, async (req, res) => {
+    try {
+      const phone = normalizeIndianMobile(String(req.body.phone ?? ""));
+      if (!phone) {
+        return res.status(400).json({ error: "Please enter a valid 10-digit Indian mobile number" });
+      }
+      const { expiresAt } = await requestOtp(phone);
+      res.json({ success: true, phone, expiresAt: expiresAt.toISOString() });
+    } catch (error) {
+      if (error instanceof OtpError) {
+        if (error.retryAfterMs) {
+          res.set("Retry-After", Math.ceil(error.retryAfterMs / 1000).toString());
+        }
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to send code" });
+    }
+  });
+
+  app.post("/api/auth/otp/verify", ...otpVerifyLimits, async (req, res) => {
+    try {
+      const phone = normalizeIndianMobile(String(req.body.phone ?? ""));
+      const { code, fullName } = z.object({
+        code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+        fullName: z.string().trim().min(1).optional(),
+      }).parse(req.body);
+      if (!phone) {
+        return res.status(400).json({ error: "Please enter a valid 10-digit Indian mobile number" });
+      }
+
+      await verifyOtp(phone, code);
+      const phoneOwner = await storage.getUserByPhone(phone);
+
+      // Signed-in users verifying a number are linking it to their account
+      if (req.user) {
+        if (phoneOwner && phoneOwner.id !== req.user.id) {
+          return res.status(409).json({ error: "This number is linked to another account" });
+        }
+        const user = await storage.markPhoneVerified(req.user.id, phone);
+        return res.json({ user: user ? toSafeUser(user) : req.user, session: getSessionInfo(req), isNewUser: false });
+      }
+
+      const isNewUser = !phoneOwner;
+      const user = phoneOwner ?? await storage.createUser({ phone, fullName });
+      await storage.markPhoneVerified(user.id, phone);
+      const signedIn = await storage.recordLogin(user.id);
+
+      await establishSession(req, signedIn ?? user, true);
+      res.json({ user: req.user, session: getSessionInfo(req), isNewUser });
+    } catch (error) {
+      if (error instanceof OtpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to verify code" });
+    }
+  });
+
+  app.get("/api/auth/user/:id", requireSameUser("id"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
@@ -84,36 +364,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Products routes
   app.get("/api/products", async (req, res) => {
     try {
-      const filters = {
-        category: req.query.category as string | undefined,
-        featured: req.query.featured ? req.query.featured === 'true' : undefined,
-        search: req.query.search as string | undefined,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
-      };
+      const parsed = productQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid filters" });
+      }
+      const { facets: includeFacets, ...filters } = parsed.data;
       
-      const products = await storage.getProducts(filters);
-      res.json({ products });
+      const [page, facets] = await Promise.all([
+        storage.getProducts(filters),
+        includeFacets ? storage.getProductFacets(filters) : undefined,
+      ]);
+
+      // Only first pages count as a search; paging through results is not a new query
+      const query = filters.search ? normalizeSearchQuery(filters.search) : "";
+      if (query && !filters.offset && !filters.cursor) {
+        storage.logSearchQuery({ query, resultCount: page.total }).catch((error) => {
+          console.error("Failed to log search query:", error);
+        });
+      }
+
+      res.json(facets ? { ...page, facets } : page);
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get products" });
     }
   });
 
+  app.get("/api/search/suggest", async (req, res) => {
+    try {
+      const term = normalizeSearchQuery(String(req.query.q ?? ""));
+      const trendingSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+      // With nothing typed yet, show what's trending
+      if (!term) {
+        const queries = await storage.getPopularSearchQueries("", trendingSince, 8);
+        return res.json({ queries, products: [], categories: [] });
+      }
+
+      const [queries, products, categories] = await Promise.all([
+        storage.getPopularSearchQueries(term, trendingSince, 4),
+        storage.getProductSuggestions(term, 5),
+        storage.searchCategoryNames(term, 3),
+      ]);
+      res.json({ queries, products, categories });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get suggestions" });
+    }
+  });
+
+  // Accepts the product's slug as well as its id, so pages can load straight from /products/<slug>
   app.get("/api/products/:id", async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
+      const product = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getProduct(req.params.id)
+        : await storage.getProductBySlug(req.params.id);
       if (!product) {
         return res.status(404).json({ error: "Product not found" });
       }
-      res.json({ product });
+      const [variants, categories] = await Promise.all([
+        storage.getProductVariants(product.id),
+        storage.getCategories(),
+      ]);
+      res.json({
+        product,
+        variants,
+        specTemplate: specTemplateFor(categories, product.categoryId),
+        breadcrumbs: toCrumbs(categoryPath(categories, product.categoryId)),
+      });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get product" });
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.get("/api/products/:id/related", async (req, res) => {
     try {
-      const productData = insertProductSchema.parse(req.body);
+      const product = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getProduct(req.params.id)
+        : undefined;
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json({ products: await getRelatedProducts(product) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get related products" });
+    }
+  });
+
+  app.get("/api/products/:id/bought-together", async (req, res) => {
+    try {
+      const product = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getProduct(req.params.id)
+        : undefined;
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json({ products: await getBoughtTogetherProducts(product) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get recommendations" });
+    }
+  });
+
+  app.get("/api/products/:id/variants", async (req, res) => {
+    try {
+      const variants = await storage.getProductVariants(req.params.id);
+      res.json({ variants });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get variants" });
+    }
+  });
+
+  app.post("/api/products/:id/variants", requireRole("admin"), async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      const variantData = insertProductVariantSchema.parse({ ...req.body, productId: product.id });
+      const variant = await storage.createProductVariant(variantData);
+      res.status(201).json({ variant });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid variant data" });
+    }
+  });
+
+  app.put("/api/products/:id/variants/:variantId", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getProductVariant(req.params.variantId);
+      if (!existing || existing.productId !== req.params.id) {
+        return res.status(404).json({ error: "Variant not found" });
+      }
+      const updates = insertProductVariantSchema.omit({ productId: true }).partial().parse(req.body);
+      const variant = await storage.updateProductVariant(existing.id, updates);
+      res.json({ variant });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid variant data" });
+    }
+  });
+
+  app.delete("/api/products/:id/variants/:variantId", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getProductVariant(req.params.variantId);
+      if (!existing || existing.productId !== req.params.id) {
+        return res.status(404).json({ error: "Variant not found" });
+      }
+      await storage.deleteProductVariant(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete variant" });
+    }
+  });
+
+  app.post("/api/products", requireRole("admin"), async (req, res) => {
+    try {
+      if (req.body.slug && await storage.getProductBySlug(req.body.slug)) {
+        return res.status(400).json({ error: "Another product already uses this slug" });
+      }
+      // The slug defaults to one derived from the name
+      const slug = req.body.slug || await uniqueSlug(
+        slugify(String(req.body.name ?? ""), "product"),
+        async (candidate) => !!(await storage.getProductBySlug(candidate)),
+      );
+      const productData = insertProductSchema.parse({ ...req.body, slug });
+      const specsError = await missingSpecsError(productData.categoryId, productData.specs);
+      if (specsError) {
+        return res.status(400).json({ error: specsError });
+      }
       const product = await storage.createProduct(productData);
       res.status(201).json({ product });
     } catch (error) {
@@ -121,6 +535,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price and stock edits, including deal pricing via originalPrice
+  app.put("/api/products/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const updates = insertProductSchema.partial().parse(req.body);
+      if (updates.slug) {
+        const holder = await storage.getProductBySlug(updates.slug);
+        if (holder && holder.id !== req.params.id) {
+          return res.status(400).json({ error: "Another product already uses this slug" });
+        }
+      }
+      if (updates.specs || updates.categoryId) {
+        const existing = await storage.getProduct(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Product not found" });
+        }
+        const specsError = await missingSpecsError(updates.categoryId ?? existing.categoryId, updates.specs ?? existing.specs);
+        if (specsError) {
+          return res.status(400).json({ error: specsError });
+        }
+      }
+      const product = await storage.updateProduct(req.params.id, updates);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json({ product });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid product data" });
+    }
+  });
+
   // Categories routes
   app.get("/api/categories", async (req, res) => {
     try {
@@ -131,9 +575,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.get("/api/categories/tree", async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json({ categories: buildCategoryTree(categories) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get categories" });
+    }
+  });
+
+  app.get("/api/categories/:slug", async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      const category = categories.find((c) => c.slug === req.params.slug);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json({
+        category,
+        breadcrumbs: toCrumbs(categoryPath(categories, category.id)),
+        children: categories.filter((c) => c.parentId === category.id),
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get category" });
+    }
+  });
+
+  app.post("/api/categories", requireRole("admin"), async (req, res) => {
     try {
-      const categoryData = insertCategorySchema.parse(req.body);
+      // The slug defaults to one derived from the name
+      const slug = req.body.slug || await uniqueSlug(
+        slugify(String(req.body.name ?? ""), "category"),
+        async (candidate) => !!(await storage.getCategoryBySlug(candidate)),
+      );
+      const categoryData = insertCategorySchema.parse({ ...req.body, slug });
+      if (categoryData.parentId && !(await storage.getCategory(categoryData.parentId))) {
+        return res.status(400).json({ error: "Parent category not found" });
+      }
       const category = await storage.createCategory(categoryData);
       res.status(201).json({ category });
     } catch (error) {
@@ -141,8 +619,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Renames keep products attached, since they reference the category by id
+  app.patch("/api/categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const updates = insertCategorySchema.omit({ specTemplate: true }).partial().parse(req.body);
+      const categories = await storage.getCategories();
+      if (!categories.some((c) => c.id === req.params.id)) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      if (updates.parentId) {
+        if (!categories.some((c) => c.id === updates.parentId)) {
+          return res.status(400).json({ error: "Parent category not found" });
+        }
+        if (createsCycle(categories, req.params.id, updates.parentId)) {
+          return res.status(400).json({ error: "A category cannot be moved under itself or its subcategories" });
+        }
+      }
+      const category = await storage.updateCategory(req.params.id, updates);
+      res.json({ category });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid category data" });
+    }
+  });
+
+  // Spec templates decide which specifications products in a category show and require.
+  // Sending an empty list reverts the category to the default template.
+  app.put("/api/categories/:id/spec-template", requireRole("admin"), async (req, res) => {
+    try {
+      const fields = z.array(specTemplateFieldSchema).parse(req.body.fields);
+      const keys = fields.map((field) => field.key);
+      if (new Set(keys).size !== keys.length) {
+        return res.status(400).json({ error: "Each specification can appear only once" });
+      }
+      const category = await storage.updateCategory(req.params.id, { specTemplate: fields.length > 0 ? fields : null });
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json({ category });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid spec template" });
+    }
+  });
+
   // Orders routes
-  app.get("/api/orders/:userId", async (req, res) => {
+  app.get("/api/orders/:userId", requireSameUser(), async (req, res) => {
     try {
       const orders = await storage.getOrders(req.params.userId);
       res.json({ orders });
@@ -151,9 +671,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/orders", requireAuth, requireVerifiedEmail("checkout"), async (req, res) => {
     try {
-      const orderData = insertOrderSchema.parse(req.body);
+      if (claimsOtherUser(req, req.body.userId)) {
+        return res.status(403).json({ error: "Cannot create orders for another user" });
+      }
+      const orderData = insertOrderSchema.parse({ ...req.body, userId: req.user!.id });
       const order = await storage.createOrder(orderData);
       res.status(201).json({ order });
     } catch (error) {
@@ -161,8 +684,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/orders/:id/status", requireRole("admin"), async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(orderStatuses) }).parse(req.body);
+      const order = await storage.updateOrder(req.params.id, { status });
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      res.json({ order });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to update order status" });
+    }
+  });
+
+  // Admin routes
+  app.put("/api/admin/users/:id/role", requireRole("admin"), async (req, res) => {
+    try {
+      const { role } = z.object({ role: z.enum(userRoles) }).parse(req.body);
+      if (req.params.id === req.user!.id && role !== "admin") {
+        return res.status(400).json({ error: "Admins cannot demote themselves" });
+      }
+      const user = await storage.setUserRole(req.params.id, role);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to update role" });
+    }
+  });
+
+  // Crawler files, generated from the live catalog
+  app.get("/sitemap.xml", async (_req, res) => {
+    try {
+      res.type("application/xml").send(await buildSitemap());
+    } catch (error) {
+      res.status(500).type("text/plain").send("Failed to build sitemap");
+    }
+  });
+
+  app.get("/robots.txt", (_req, res) => {
+    res.type("text/plain").send(buildRobotsTxt());
+  });
+
+  const fileStore = getFileStore();
+  if (fileStore instanceof LocalFileStore) {
+    // Rendition names never change once written, so browsers can cache them for good
+    app.use(LOCAL_UPLOADS_PATH, express.static(fileStore.directory, { immutable: true, maxAge: "365d" }));
+  }
+
+  // Upload product images; returns each with its renditions and placeholder. Put `url` into a product's images.
+  app.post("/api/admin/images", requireRole("admin"), receiveImages, async (req, res) => {
+    try {
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        return res.status(400).json({ error: "Attach at least one file in the images field" });
+      }
+      const images = [];
+      // One at a time: encoding is CPU-bound and sharp already uses every core
+      for (const file of files) {
+        images.push(await storage.createImageAsset(await processImageUpload(file.buffer, req.user!.id)));
+      }
+      res.status(201).json({ images });
+    } catch (error) {
+      if (error instanceof ImageUploadError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to upload images" });
+    }
+  });
+
+  // Rebuilds recommendations now rather than waiting for the nightly run, e.g. after a catalog import
+  app.post("/api/admin/recommendations/recompute", requireRole("admin"), async (_req, res) => {
+    try {
+      res.json(await recomputeRecommendations());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to rebuild recommendations" });
+    }
+  });
+
+  // Bulk catalog upsert by SKU from CSV (text/csv) or JSON; ?dryRun=true validates without writing
+  app.post("/api/admin/products/import", requireRole("admin"), async (req, res) => {
+    try {
+      const format = req.is("text/csv") || req.is("text/plain") ? "csv" : "json";
+      const result = await importCatalog(req.body, format, req.query.dryRun === "true");
+      res.json(result);
+    } catch (error) {
+      if (error instanceof CatalogImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to import products" });
+    }
+  });
+
+  app.get("/api/admin/products/export", requireRole("admin"), async (req, res) => {
+    const format = req.query.format === "json" ? "json" : "csv";
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${catalogFilename(format)}"`);
+    try {
+      await streamCatalogExport(res, format);
+    } catch (error) {
+      // Once rows are on the wire the status can't change, so cut the download short instead
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+      } else {
+        res.status(500).json({ error: error instanceof Error ? error.message : "Failed to export products" });
+      }
+    }
+  });
+
   // Cart routes
-  app.get("/api/cart/:userId", async (req, res) => {
+  app.get("/api/cart/:userId", requireSameUser(), async (req, res) => {
     try {
       const items = await storage.getCartItems(req.params.userId);
       res.json({ items });
@@ -171,9 +803,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/cart", async (req, res) => {
+  app.post("/api/cart", requireAuth, async (req, res) => {
     try {
-      const itemData = insertCartItemSchema.parse(req.body);
+      if (claimsOtherUser(req, req.body.userId)) {
+        return res.status(403).json({ error: "Cannot modify another user's cart" });
+      }
+      const itemData = insertCartItemSchema.parse({ ...req.body, userId: req.user!.id });
+      const invalidVariant = await variantError(itemData.productId, itemData.variantId);
+      if (invalidVariant) {
+        return res.status(400).json({ error: invalidVariant });
+      }
       const item = await storage.addToCart(itemData);
       res.status(201).json({ item });
     } catch (error) {
@@ -181,25 +820,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cart/:id", async (req, res) => {
+  app.put("/api/cart/:id", requireAuth, async (req, res) => {
     try {
       const { quantity } = req.body;
-      const item = await storage.updateCartItem(req.params.id, quantity);
-      if (!item) {
+      const existing = await storage.getCartItem(req.params.id);
+      if (!existing) {
         return res.status(404).json({ error: "Cart item not found" });
       }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "Cannot modify another user's cart" });
+      }
+      const item = await storage.updateCartItem(req.params.id, quantity);
       res.json({ item });
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : "Failed to update cart item" });
     }
   });
 
-  app.delete("/api/cart/:id", async (req, res) => {
+  app.delete("/api/cart/:id", requireAuth, async (req, res) => {
     try {
-      const success = await storage.removeFromCart(req.params.id);
-      if (!success) {
+      const existing = await storage.getCartItem(req.params.id);
+      if (!existing) {
         return res.status(404).json({ error: "Cart item not found" });
       }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "Cannot modify another user's cart" });
+      }
+      await storage.removeFromCart(req.params.id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to remove cart item" });
@@ -207,7 +854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Wishlist routes
-  app.get("/api/wishlist/:userId", async (req, res) => {
+  app.get("/api/wishlist/:userId", requireSameUser(), async (req, res) => {
     try {
       const items = await storage.getWishlistItems(req.params.userId);
       res.json({ items });
@@ -216,9 +863,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/wishlist", async (req, res) => {
+  app.post("/api/wishlist", requireAuth, async (req, res) => {
     try {
-      const itemData = insertWishlistItemSchema.parse(req.body);
+      if (claimsOtherUser(req, req.body.userId)) {
+        return res.status(403).json({ error: "Cannot modify another user's wishlist" });
+      }
+      const itemData = insertWishlistItemSchema.parse({ ...req.body, userId: req.user!.id });
+      // A wishlist entry may leave the variant open, so only a given variant is checked
+      if (itemData.variantId) {
+        const invalidVariant = await variantError(itemData.productId, itemData.variantId);
+        if (invalidVariant) {
+          return res.status(400).json({ error: invalidVariant });
+        }
+      }
       const item = await storage.addToWishlist(itemData);
       res.status(201).json({ item });
     } catch (error) {
@@ -226,9 +883,325 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/wishlist/:userId/:productId", async (req, res) => {
+  app.delete("/api/wishlist/:userId/:productId", requireSameUser(), async (req, res) => {
+    try {
+      const variantId = typeof req.query.variantId === "string" ? req.query.variantId : null;
+      const success = await storage.removeFromWishlist(req.params.userId, req.params.productId, variantId);
+      if (!success) {
+        return res.status(404).json({ error: "Wishlist item not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to remove wishlist item" });
+    }
+  });
+
+  // Routes scoped to the signed-in user
+  app.get("/api/me", requireAuth, (req, res) => {
+    res.json({ user: req.user });
+  });
+
+  app.patch("/api/me", requireAuth, async (req, res) => {
+    try {
+      const updates = insertUserSchema
+        .pick({ fullName: true, phone: true, avatarUrl: true, address: true })
+        .partial()
+        .parse(req.body);
+      const user = await storage.updateUser(req.user!.id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ user: toSafeUser(user) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to update profile" });
+    }
+  });
+
+  // DPDP access and erasure requests
+  app.get("/api/me/export", requireAuth, async (req, res) => {
+    try {
+      const bundle = await buildAccountExport(req.user!);
+      res.set("Content-Disposition", `attachment; filename="${exportFilename(req.user!)}"`);
+      res.json(bundle);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to export account data" });
+    }
+  });
+
+  app.delete("/api/me", requireAuth, async (req, res) => {
+    try {
+      if (req.body?.confirm !== ACCOUNT_DELETION_CONFIRMATION) {
+        return res.status(400).json({ error: `Type ${ACCOUNT_DELETION_CONFIRMATION} to confirm account deletion` });
+      }
+      const deleted = await deleteAccount(req.user!);
+      if (!deleted) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      await destroySession(req, res);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete account" });
+    }
+  });
+
+  app.get("/api/me/orders", requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getOrders(req.user!.id);
+      res.json({ orders });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get orders" });
+    }
+  });
+
+  app.get("/api/me/orders/:id", requireAuth, async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (!isOwner(req, order.userId)) {
+        return res.status(403).json({ error: "You do not have access to this order" });
+      }
+      const items = await storage.getOrderItems(order.id);
+      res.json({ order, items });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get order" });
+    }
+  });
+
+  app.get("/api/me/cart", requireAuth, async (req, res) => {
+    try {
+      const items = await storage.getCartItems(req.user!.id);
+      res.json({ items });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get cart items" });
+    }
+  });
+
+  app.delete("/api/me/cart", requireAuth, async (req, res) => {
+    try {
+      await storage.clearCart(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clear cart" });
+    }
+  });
+
+  // Address book
+  app.get("/api/me/addresses", requireAuth, async (req, res) => {
+    try {
+      const addresses = await storage.getAddresses(req.user!.id);
+      res.json({ addresses });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get addresses" });
+    }
+  });
+
+  app.post("/api/me/addresses", requireAuth, async (req, res) => {
+    try {
+      const addressData = insertAddressSchema.parse({ ...req.body, userId: req.user!.id });
+      const address = await storage.createAddress(addressData);
+      res.status(201).json({ address });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid address data" });
+    }
+  });
+
+  app.patch("/api/me/addresses/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getAddress(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "You do not have access to this address" });
+      }
+      const updates = insertAddressSchema.omit({ userId: true }).partial().parse(req.body);
+      const address = await storage.updateAddress(req.params.id, updates);
+      res.json({ address });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid address data" });
+    }
+  });
+
+  app.delete("/api/me/addresses/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getAddress(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Address not found" });
+      }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "You do not have access to this address" });
+      }
+      await storage.deleteAddress(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete address" });
+    }
+  });
+
+  // Room profiles, reused by the "Will it fit?" checker on every product
+  app.get("/api/me/rooms", requireAuth, async (req, res) => {
+    try {
+      const rooms = await storage.getRoomProfiles(req.user!.id);
+      res.json({ rooms });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get rooms" });
+    }
+  });
+
+  app.post("/api/me/rooms", requireAuth, async (req, res) => {
+    try {
+      const roomData = insertRoomProfileSchema.parse({ ...req.body, userId: req.user!.id });
+      const room = await storage.createRoomProfile(roomData);
+      res.status(201).json({ room });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid room data" });
+    }
+  });
+
+  app.patch("/api/me/rooms/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getRoomProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "You do not have access to this room" });
+      }
+      const updates = insertRoomProfileSchema.omit({ userId: true }).partial().parse(req.body);
+      const room = await storage.updateRoomProfile(req.params.id, updates);
+      res.json({ room });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid room data" });
+    }
+  });
+
+  app.delete("/api/me/rooms/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getRoomProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+      if (!isOwner(req, existing.userId)) {
+        return res.status(403).json({ error: "You do not have access to this room" });
+      }
+      await storage.deleteRoomProfile(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete room" });
+    }
+  });
+
+  // Browsing history. Views also feed the personalized home page rails.
+  app.get("/api/me/history", requireAuth, async (req, res) => {
+    try {
+      const items = await storage.getViewHistory(req.user!.id, MAX_HISTORY_ITEMS);
+      res.json({ items, paused: req.user!.historyPaused });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get history" });
+    }
+  });
+
+  app.post("/api/me/history", requireAuth, async (req, res) => {
+    try {
+      const { productId } = z.object({ productId: z.string().uuid() }).parse(req.body);
+      if (req.user!.historyPaused) {
+        return res.json({ recorded: false });
+      }
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      await storage.recordProductView(req.user!.id, product.id);
+      res.json({ recorded: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid product view" });
+    }
+  });
+
+  // Called after sign-in with the history the browser kept as a guest
+  app.post("/api/me/history/merge", requireAuth, async (req, res) => {
+    try {
+      const { items } = mergeHistorySchema.parse(req.body);
+      if (req.user!.historyPaused) {
+        return res.json({ merged: 0 });
+      }
+      // Unknown products are dropped, repeats keep their latest view, and the browser's clock can't post-date one
+      const known = new Set((await storage.getProductsByIds(items.map((item) => item.productId))).map((product) => product.id));
+      const latest = new Map<string, Date>();
+      items.filter((item) => known.has(item.productId)).forEach((item) => {
+        const viewedAt = new Date(Math.min(item.viewedAt.getTime(), Date.now()));
+        const seen = latest.get(item.productId);
+        if (!seen || seen < viewedAt) latest.set(item.productId, viewedAt);
+      });
+      const views = Array.from(latest.entries()).map(([productId, viewedAt]) => ({ productId, viewedAt }));
+      await storage.mergeProductViews(req.user!.id, views);
+      res.json({ merged: views.length });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid history" });
+    }
+  });
+
+  app.put("/api/me/history/settings", requireAuth, async (req, res) => {
+    try {
+      const { paused } = z.object({ paused: z.boolean() }).parse(req.body);
+      const user = await storage.setHistoryPaused(req.user!.id, paused);
+      res.json({ paused: user?.historyPaused ?? paused });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid history settings" });
+    }
+  });
+
+  app.delete("/api/me/history/:productId", requireAuth, async (req, res) => {
+    try {
+      const success = z.string().uuid().safeParse(req.params.productId).success
+        && await storage.deleteProductView(req.user!.id, req.params.productId);
+      if (!success) {
+        return res.status(404).json({ error: "History item not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to remove history item" });
+    }
+  });
+
+  app.delete("/api/me/history", requireAuth, async (req, res) => {
+    try {
+      await storage.clearProductViews(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clear history" });
+    }
+  });
+
+  // Guests (and just-signed-in shoppers) pass what their browser remembers as ?viewed= and ?wishlist= ids
+  app.get("/api/personalization/home", async (req, res) => {
+    try {
+      const signals = await shopperSignals(
+        req.user?.id ?? null,
+        parseProductIds(req.query.viewed),
+        parseProductIds(req.query.wishlist),
+      );
+      res.json({ rails: await buildHomeRails(signals) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to build recommendations" });
+    }
+  });
+
+  app.get("/api/me/wishlist", requireAuth, async (req, res) => {
     try {
-      const success = await storage.removeFromWishlist(req.params.userId, req.params.productId);
+      const items = await storage.getWishlistItems(req.user!.id);
+      res.json({ items });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get wishlist items" });
+    }
+  });
+
+  app.delete("/api/me/wishlist/:productId", requireAuth, async (req, res) => {
+    try {
+      const variantId = typeof req.query.variantId === "string" ? req.query.variantId : null;
+      const success = await storage.removeFromWishlist(req.user!.id, req.params.productId, variantId);
       if (!success) {
         return res.status(404).json({ error: "Wishlist item not found" });
       }
@@ -248,9 +1221,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reviews", async (req, res) => {
+  app.post("/api/reviews", requireAuth, requireVerifiedEmail("reviews"), async (req, res) => {
     try {
-      const reviewData = insertReviewSchema.parse(req.body);
+      if (claimsOtherUser(req, req.body.userId)) {
+        return res.status(403).json({ error: "Cannot post reviews as another user" });
+      }
+      const reviewData = insertReviewSchema.parse({ ...req.body, userId: req.user!.id });
       const review = await storage.createReview(reviewData);
       res.status(201).json({ review });
     } catch (error) {
@@ -259,9 +1235,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transaction routes for payment tracking
-  app.post("/api/transactions", async (req, res) => {
+  app.post("/api/transactions", requireAuth, async (req, res) => {
     try {
       const transactionData = insertTransactionSchema.parse(req.body);
+      const denied = await orderAccessError(req, transactionData.orderId);
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error });
+      }
       const transaction = await storage.createTransaction(transactionData);
       res.status(201).json({ transaction });
     } catch (error) {
@@ -269,9 +1249,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/transactions/:orderId", async (req, res) => {
+  app.put("/api/transactions/:orderId", requireAuth, async (req, res) => {
     try {
-      const updates = req.body;
+      const denied = await orderAccessError(req, req.params.orderId);
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error });
+      }
+      // A transaction stays with the order it was created for
+      const updates = insertTransactionSchema.omit({ orderId: true }).partial().parse(req.body);
       const transaction = await storage.updateTransaction(req.params.orderId, updates);
       if (!transaction) {
         return res.status(404).json({ error: "Transaction not found" });
@@ -282,9 +1267,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/transaction-events", async (req, res) => {
+  app.post("/api/transaction-events", requireAuth, async (req, res) => {
     try {
       const eventData = insertTransactionEventSchema.parse(req.body);
+      const denied = await orderAccessError(req, eventData.orderId);
+      if (denied) {
+        return res.status(denied.status).json({ error: denied.error });
+      }
       const event = await storage.createTransactionEvent(eventData);
       res.status(201).json({ event });
     } catch (error) {
@@ -371,7 +1360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Razorpay payment routes
-  app.post('/api/payments/razorpay/create-order', async (req, res) => {
+  app.post('/api/payments/razorpay/create-order', ...paymentLimits, async (req, res) => {
     try {
       const { amount, currency, receipt, notes } = req.body;
       
@@ -436,6 +1425,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Unknown API paths answer in JSON rather than falling through to the app shell
+  app.all("/api/*", (_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
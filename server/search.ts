@@ -0,0 +1,73 @@
+import { sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import { products, categories } from "@shared/schema";
+
+/**
+ * Postgres full-text search over the product catalog.
+ *
+ * The search vector weights name > tags > description. It is built by an
+ * IMMUTABLE SQL function so the same expression can back a GIN index;
+ * array_to_string on its own is only STABLE and can't be indexed.
+ * The category name lives in another table, so it is matched separately and
+ * queries using these fragments must join categories.
+ * pg_trgm covers typos that full-text stemming can't ("sofaa", "wardrob").
+ */
+export const SEARCH_SETUP_STATEMENTS: SQL[] = [
+  sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`,
+  sql.raw(`
+    CREATE OR REPLACE FUNCTION products_search_vector(name text, description text, tags text[])
+    RETURNS tsvector LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+      SELECT setweight(to_tsvector('english', coalesce(name, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B')
+        || setweight(to_tsvector('english', coalesce(description, '')), 'C')
+    $$
+  `),
+  sql`CREATE INDEX IF NOT EXISTS products_search_idx ON products
+    USING gin (products_search_vector(name, description, tags))`,
+  sql`CREATE INDEX IF NOT EXISTS products_name_trgm_idx ON products USING gin (name gin_trgm_ops)`,
+];
+
+// Minimum word_similarity for a typo match on the product name
+export const TRIGRAM_THRESHOLD = 0.4;
+
+// The <% operator reads its cut-off from this setting. Local to the transaction,
+// so queries using searchFragments().matches must run in one that starts with it.
+export const TRIGRAM_THRESHOLD_SETUP = sql`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TRIGRAM_THRESHOLD)}, true)`;
+
+export const productSearchVector = sql`products_search_vector(${products.name}, ${products.description}, ${products.tags})`;
+const categorySearchVector = sql`setweight(to_tsvector('english', ${categories.name}), 'B')`;
+
+/**
+ * Turns free text into a prefix tsquery, so "oak din" matches "oak dining table"
+ * while the shopper is still typing. Returns null when nothing searchable is left.
+ */
+export function toPrefixTsQuery(term: string): string | null {
+  // Latin letters, digits and Devanagari; everything else separates words
+  const words = term.toLowerCase().match(/[a-z0-9\u00c0-\u024f\u0900-\u097f]+/g);
+  if (!words) return null;
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+// Escapes HTML before ts_headline adds <mark> tags, so snippets are safe to render as markup
+function escapedText(column: SQLWrapper) {
+  return sql`replace(replace(replace(coalesce(${column}, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
+
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, ShortWord=2, HighlightAll=false";
+
+export function searchFragments(term: string, tsQuery: string) {
+  const query = sql`to_tsquery('english', ${tsQuery})`;
+  const similarity = sql<number>`word_similarity(${term}, ${products.name})`;
+
+  return {
+    // <% rather than comparing word_similarity() so products_name_trgm_idx can serve it
+    matches: sql`(${productSearchVector} @@ ${query} OR ${categorySearchVector} @@ ${query} OR ${term} <% ${products.name})`,
+    rank: sql<number>`(ts_rank_cd(${productSearchVector} || ${categorySearchVector}, ${query}, 32) + ${similarity} * 0.5)`,
+    nameHighlight: sql<string>`ts_headline('english', ${escapedText(products.name)}, ${query}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+    descriptionHighlight: sql<string>`ts_headline('english', ${escapedText(products.description)}, ${query}, ${HEADLINE_OPTIONS})`,
+  };
+}
+
+// Canonical form for the query log: lowercase, single spaces, bounded length
+export function normalizeSearchQuery(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, " ").slice(0, 100);
+}
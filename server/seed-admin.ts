@@ -0,0 +1,19 @@
+// Usage: npm run db:seed-admin -- <email> [password]
+import { ensureAdmin } from "./admin";
+
+const [email, password] = process.argv.slice(2);
+
+if (!email) {
+  console.error("Usage: npm run db:seed-admin -- <email> [password]");
+  process.exit(1);
+}
+
+ensureAdmin(email, password)
+  .then((user) => {
+    console.log(`${user.email} is now an admin`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
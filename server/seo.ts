@@ -0,0 +1,206 @@
+import type { Product } from "@shared/schema";
+import { storage } from "./storage";
+import { appUrl } from "./mail";
+
+export const SITE_NAME = "Interoo";
+const DEFAULT_DESCRIPTION = "Discover premium furniture and decor that brings your dream home to life.";
+const DESCRIPTION_LENGTH = 160;
+
+// First path segments the client router renders; anything else is its 404 page
+const APP_SECTIONS = ["", "products", "category", "cart", "checkout", "account", "orders", "deals", "reset-password"];
+
+export interface PageMeta {
+  status: number;
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  type: "website" | "product";
+  image?: string;
+  jsonLd?: Record<string, unknown>;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeXml(value: string): string {
+  return escapeHtml(value).replace(/'/g, "&apos;");
+}
+
+// Search snippets cut off around 160 characters; end on a word where we can
+function summarize(text: string | null | undefined): string {
+  const plain = (text ?? "").replace(/\s+/g, " ").trim();
+  if (plain.length <= DESCRIPTION_LENGTH) return plain || DEFAULT_DESCRIPTION;
+  const cut = plain.slice(0, DESCRIPTION_LENGTH - 1);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : cut.length)}…`;
+}
+
+function productJsonLd(product: Product, url: string): Record<string, unknown> {
+  const inStock = (product.stock ?? 0) > 0;
+  return {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name: product.name,
+    description: summarize(product.description),
+    image: (product.images ?? []).map((image) => appUrl(image)),
+    ...(product.sku ? { sku: product.sku } : {}),
+    category: product.category,
+    brand: { "@type": "Brand", name: SITE_NAME },
+    offers: {
+      "@type": "Offer",
+      url,
+      price: product.price,
+      priceCurrency: "INR",
+      availability: inStock ? "https://schema.org/InStock" : "https://schema.org/OutOfStock",
+    },
+    ...(product.reviewCount
+      ? {
+          aggregateRating: {
+            "@type": "AggregateRating",
+            ratingValue: product.rating,
+            reviewCount: product.reviewCount,
+          },
+        }
+      : {}),
+  };
+}
+
+function notFound(pathname: string): PageMeta {
+  return {
+    status: 404,
+    title: `Page not found | ${SITE_NAME}`,
+    description: DEFAULT_DESCRIPTION,
+    canonicalUrl: appUrl(pathname),
+    type: "website",
+  };
+}
+
+/**
+ * Title, description, Open Graph and structured data for a storefront URL,
+ * so crawlers and link previews see the page without running the app.
+ */
+export async function pageMetaFor(pathname: string): Promise<PageMeta> {
+  const [, section, slug] = pathname.split("/");
+  if (!APP_SECTIONS.includes(section)) return notFound(pathname);
+
+  if (section === "products" && slug) {
+    const product = await storage.getProductBySlug(decodeURIComponent(slug));
+    if (!product) return notFound(pathname);
+    const url = appUrl(`/products/${product.slug}`);
+    return {
+      status: 200,
+      title: `${product.name} | ${SITE_NAME}`,
+      description: summarize(product.description),
+      canonicalUrl: url,
+      type: "product",
+      image: product.images?.[0] ? appUrl(product.images[0]) : undefined,
+      jsonLd: productJsonLd(product, url),
+    };
+  }
+
+  if (section === "category" && slug) {
+    const category = await storage.getCategoryBySlug(decodeURIComponent(slug));
+    if (!category) return notFound(pathname);
+    return {
+      status: 200,
+      title: `${category.name} | ${SITE_NAME}`,
+      description: summarize(category.description ?? `Shop ${category.name} at ${SITE_NAME}.`),
+      canonicalUrl: appUrl(`/category/${category.slug}`),
+      type: "website",
+      image: category.image ? appUrl(category.image) : undefined,
+    };
+  }
+
+  return {
+    status: 200,
+    title: section === "products" ? `All products | ${SITE_NAME}` : `${SITE_NAME} | Furniture and home decor`,
+    description: DEFAULT_DESCRIPTION,
+    canonicalUrl: appUrl(pathname),
+    type: "website",
+  };
+}
+
+export function renderPageMeta(meta: PageMeta): string {
+  const tags = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    `<link rel="canonical" href="${escapeHtml(meta.canonicalUrl)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:title" content="${escapeHtml(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(meta.canonicalUrl)}" />`,
+  ];
+  if (meta.image) {
+    tags.push(`<meta property="og:image" content="${escapeHtml(meta.image)}" />`);
+    tags.push(`<meta name="twitter:card" content="summary_large_image" />`);
+  }
+  if (meta.status === 404) {
+    tags.push(`<meta name="robots" content="noindex" />`);
+  }
+  if (meta.jsonLd) {
+    // "<" can't appear raw inside a script element, or a product name could close it
+    const json = JSON.stringify(meta.jsonLd).replace(/</g, "\\u003c");
+    tags.push(`<script type="application/ld+json">${json}</script>`);
+  }
+  return tags.join("\n    ");
+}
+
+// Drops the page's head tags in just before </head>
+export function injectPageMeta(html: string, meta: PageMeta): string {
+  return html.replace("</head>", `  ${renderPageMeta(meta)}\n  </head>`);
+}
+
+/**
+ * Looks up the metadata for a request and injects it into the app shell.
+ * A lookup failure shouldn't take the page down, so it falls back to the bare shell.
+ */
+export async function renderAppShell(html: string, pathname: string): Promise<{ status: number; html: string }> {
+  try {
+    const meta = await pageMetaFor(pathname);
+    return { status: meta.status, html: injectPageMeta(html, meta) };
+  } catch {
+    return { status: 200, html };
+  }
+}
+
+function sitemapUrl(loc: string, lastmod?: Date | null): string {
+  const modified = lastmod ? `<lastmod>${lastmod.toISOString().slice(0, 10)}</lastmod>` : "";
+  return `  <url><loc>${escapeXml(appUrl(loc))}</loc>${modified}</url>`;
+}
+
+export async function buildSitemap(): Promise<string> {
+  const entries = await storage.getSitemapEntries();
+  const urls = [
+    sitemapUrl("/"),
+    sitemapUrl("/products"),
+    ...entries.categories.map((category) => sitemapUrl(`/category/${category.slug}`, category.updatedAt)),
+    ...entries.products.map((product) => sitemapUrl(`/products/${product.slug}`, product.updatedAt)),
+  ];
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...urls,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+// Keep crawlers to the catalog; carts, checkout and accounts are per-shopper
+export function buildRobotsTxt(): string {
+  return [
+    "User-agent: *",
+    "Disallow: /api/",
+    "Disallow: /cart",
+    "Disallow: /checkout",
+    "Disallow: /account",
+    "Disallow: /orders",
+    "",
+    `Sitemap: ${appUrl("/sitemap.xml")}`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,44 @@
+import { sql, type SQL } from "drizzle-orm";
+
+/**
+ * URL slugs: lowercase ASCII words joined by single hyphens.
+ * Accents are folded ("Décor" -> "decor"); anything else is a separator.
+ */
+export function slugify(text: string, fallback = "item"): string {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/, "");
+  return slug || fallback;
+}
+
+// Appends -2, -3, ... until the slug is free
+export async function uniqueSlug(base: string, isTaken: (slug: string) => Promise<boolean>): Promise<string> {
+  let slug = base;
+  for (let n = 2; await isTaken(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+/**
+ * One-off migration giving existing products slugs derived from their names,
+ * numbered in creation order where names repeat ("oak-table", "oak-table-2").
+ */
+export const PRODUCT_SLUG_MIGRATION: SQL[] = [
+  sql`ALTER TABLE products ADD COLUMN slug text`,
+  sql`WITH slugged AS (
+      SELECT id, created_at, coalesce(nullif(trim(both '-' from left(regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'), 80)), ''), 'product') AS base
+      FROM products
+    ), numbered AS (
+      SELECT id, base, row_number() OVER (PARTITION BY base ORDER BY created_at, id) AS n FROM slugged
+    )
+    UPDATE products p SET slug = CASE WHEN n = 1 THEN base ELSE base || '-' || n END
+    FROM numbered WHERE p.id = numbered.id`,
+  sql`ALTER TABLE products ALTER COLUMN slug SET NOT NULL`,
+  sql`ALTER TABLE products ADD CONSTRAINT products_slug_unique UNIQUE (slug)`,
+];
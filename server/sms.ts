@@ -0,0 +1,32 @@
+import { log } from "./vite";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Writes messages to the server log instead of sending them. Default for local development.
+ */
+export class LogSmsProvider implements SmsProvider {
+  async send(message: SmsMessage): Promise<void> {
+    log(`to=${message.to} ${message.body}`, "sms");
+  }
+}
+
+let provider: SmsProvider = new LogSmsProvider();
+
+/**
+ * Swap the provider, e.g. for an Indian SMS gateway in production
+ */
+export function setSmsProvider(next: SmsProvider) {
+  provider = next;
+}
+
+export function sendSms(message: SmsMessage): Promise<void> {
+  return provider.send(message);
+}
@@ -1,9 +1,29 @@
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, ne, and, desc, gt, gte, isNull, isNotNull, inArray, notInArray, ilike, sql, count, getTableColumns } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { SEARCH_SETUP_STATEMENTS, TRIGRAM_THRESHOLD_SETUP, toPrefixTsQuery, searchFragments } from "./search";
+import { CATEGORY_TREE_MIGRATION } from "./categoryTree";
+import { PRODUCT_SLUG_MIGRATION } from "./slugs";
+import {
+  productFilterConditions,
+  productSortOrder,
+  encodeCursor,
+  decodeCursor,
+  PRICE_BUCKETS,
+  MAX_TAG_FACETS,
+  type ProductFilters,
+} from "./productFilters";
 import {
   users,
+  emailVerificationTokens,
+  passwordResetTokens,
+  phoneOtps,
+  addresses,
+  roomProfiles,
   products,
+  productVariants,
+  imageAssets,
   categories,
   orders,
   orderItems,
@@ -12,10 +32,32 @@ import {
   wishlistItems,
   transactions,
   transactionEvents,
+  searchQueries,
+  productRecommendations,
+  productViews,
   type User,
   type InsertUser,
+  type UserRole,
+  type EmailVerificationToken,
+  type InsertEmailVerificationToken,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type PhoneOtp,
+  type InsertPhoneOtp,
+  type Address,
+  type InsertAddress,
+  type RoomProfile,
+  type InsertRoomProfile,
   type Product,
+  type ProductRow,
+  type ProductPage,
+  type ProductFacets,
   type InsertProduct,
+  type ProductVariant,
+  type InsertProductVariant,
+  type ImageAsset,
+  type InsertImageAsset,
+  type ResponsiveImage,
   type Category,
   type InsertCategory,
   type Order,
@@ -32,6 +74,11 @@ import {
   type InsertTransaction,
   type TransactionEvent,
   type InsertTransactionEvent,
+  type InsertSearchQuery,
+  type SearchSuggestions,
+  type RecommendationKind,
+  type ViewedProduct,
+  type InsertProductRecommendation,
 } from "@shared/schema";
 
 // Database connection
@@ -39,29 +86,162 @@ const connectionString = process.env.DATABASE_URL!;
 const client = postgres(connectionString);
 const db = drizzle(client);
 
+// Product rows with their category's name and slug, for queries joined on productCategory,
+// plus renditions for whichever of the product's and its variants' images were uploaded
+const productColumns = {
+  ...getTableColumns(products),
+  category: categories.name,
+  categorySlug: categories.slug,
+  imageAssets: sql<ResponsiveImage[]>`(
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+      'url', a.url, 'width', a.width, 'height', a.height, 'placeholder', a.placeholder, 'renditions', a.renditions
+    )), '[]'::jsonb)
+    FROM image_assets a
+    WHERE a.url = ANY(${products.images})
+      OR a.url IN (SELECT unnest(v.images) FROM product_variants v WHERE v.product_id = ${products.id})
+  )`.as("image_assets"),
+};
+const productCategory = eq(products.categoryId, categories.id);
+
+export interface SitemapEntries {
+  products: { slug: string; updatedAt: Date | null }[];
+  categories: { slug: string; updatedAt: Date | null }[];
+}
+
+// What the recommendations rebuild works from; order counts only cover orders that weren't cancelled
+export interface RecommendationSignals {
+  products: Pick<ProductRow, "id" | "categoryId" | "tags" | "price">[];
+  // Orders each product appears in
+  orderCounts: { productId: string; orders: number }[];
+  // Orders each ordered pair of products appears in together
+  coPurchases: { productId: string; otherProductId: string; orders: number }[];
+}
+
+// Tags and categories a shopper keeps coming back to, most frequent first
+export interface StyleProfile {
+  tags: string[];
+  categoryIds: string[];
+}
+
+// Keeps bulk statements well under Postgres' bind parameter limit
+const UPSERT_BATCH_SIZE = 500;
+
+type QueryRunner = Pick<typeof db, "select" | "execute">;
+
+// Catalog reads that filter on a search term run in a transaction that sets the typo-match cut-off
+async function withSearchSettings<T>(searching: boolean, run: (runner: QueryRunner) => Promise<T>): Promise<T> {
+  if (!searching) return run(db);
+  return db.transaction(async (tx) => {
+    await tx.execute(TRIGRAM_THRESHOLD_SETUP);
+    return run(tx);
+  });
+}
+
+// Escapes LIKE wildcards so user input matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
 export interface IStorage {
   // User management
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByPhone(phone: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+  recordLogin(id: string): Promise<User | undefined>;
+  setUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  markEmailVerified(id: string): Promise<User | undefined>;
+  markPhoneVerified(id: string, phone: string): Promise<User | undefined>;
+  deleteUserAccount(id: string): Promise<boolean>;
+  
+  // Email verification
+  createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken>;
+  consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  
+  // Password reset
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+  
+  // Phone OTP sign-in
+  createPhoneOtp(otp: InsertPhoneOtp): Promise<PhoneOtp>;
+  getLatestPhoneOtp(phone: string): Promise<PhoneOtp | undefined>;
+  countPhoneOtpsSince(phone: string, since: Date): Promise<number>;
+  incrementPhoneOtpAttempts(id: string): Promise<void>;
+  consumePhoneOtp(id: string): Promise<PhoneOtp | undefined>;
+  
+  // Address book
+  getAddresses(userId: string): Promise<Address[]>;
+  getAddress(id: string): Promise<Address | undefined>;
+  createAddress(address: InsertAddress): Promise<Address>;
+  updateAddress(id: string, updates: Partial<InsertAddress>): Promise<Address | undefined>;
+  deleteAddress(id: string): Promise<boolean>;
+  
+  // Room profiles for fit checks
+  getRoomProfiles(userId: string): Promise<RoomProfile[]>;
+  getRoomProfile(id: string): Promise<RoomProfile | undefined>;
+  createRoomProfile(profile: InsertRoomProfile): Promise<RoomProfile>;
+  updateRoomProfile(id: string, updates: Partial<InsertRoomProfile>): Promise<RoomProfile | undefined>;
+  deleteRoomProfile(id: string): Promise<boolean>;
   
   // Product management
-  getProducts(filters?: {
-    category?: string;
-    featured?: boolean;
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Product[]>;
+  getProducts(filters?: ProductFilters): Promise<ProductPage>;
+  getProductFacets(filters?: ProductFilters): Promise<ProductFacets>;
+  ensureSearchIndexes(): Promise<void>;
+  migrateCategoryTree(): Promise<boolean>;
+  migrateProductSlugs(): Promise<boolean>;
+  getProductSuggestions(term: string, limit: number): Promise<SearchSuggestions["products"]>;
   getProduct(id: string): Promise<Product | undefined>;
+  getProductBySlug(slug: string): Promise<Product | undefined>;
+  getSitemapEntries(): Promise<SitemapEntries>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined>;
+  getProductSlugsBySku(skus: string[]): Promise<Map<string, string>>;
+  getProductSlugsStartingWith(prefixes: string[]): Promise<Set<string>>;
+  upsertProductsBySku(rows: InsertProduct[]): Promise<void>;
+  getProductsAfter(afterId: string | null, limit: number): Promise<Product[]>;
+  
+  // Uploaded images
+  createImageAsset(asset: InsertImageAsset): Promise<ImageAsset>;
+
+  // Recommendations
+  getRecommendationSignals(minSharedOrders: number): Promise<RecommendationSignals>;
+  replaceProductRecommendations(rows: InsertProductRecommendation[]): Promise<void>;
+  getRecommendedProducts(productId: string, kind: RecommendationKind, limit: number): Promise<Product[]>;
+  getSimilarlyPricedProducts(product: Product, limit: number): Promise<Product[]>;
+
+  // Browsing history and personalization
+  recordProductView(userId: string, productId: string): Promise<void>;
+  mergeProductViews(userId: string, views: { productId: string; viewedAt: Date }[]): Promise<void>;
+  getViewHistory(userId: string, limit: number): Promise<ViewedProduct[]>;
+  deleteProductView(userId: string, productId: string): Promise<boolean>;
+  clearProductViews(userId: string): Promise<void>;
+  setHistoryPaused(userId: string, paused: boolean): Promise<User | undefined>;
+  getRecentlyViewedProducts(userId: string, limit: number): Promise<Product[]>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
+  getStylePicks(profile: StyleProfile, excludeIds: string[], limit: number): Promise<Product[]>;
+  getBestsellers(since: Date, limit: number): Promise<Product[]>;
+
+  // Product variants
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  createProductVariant(variant: InsertProductVariant): Promise<ProductVariant>;
+  updateProductVariant(id: string, updates: Partial<InsertProductVariant>): Promise<ProductVariant | undefined>;
+  deleteProductVariant(id: string): Promise<boolean>;
   
   // Category management
   getCategories(): Promise<Category[]>;
   getCategory(id: string): Promise<Category | undefined>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined>;
+  searchCategoryNames(term: string, limit: number): Promise<string[]>;
+  
+  // Search query log
+  logSearchQuery(entry: InsertSearchQuery): Promise<void>;
+  getPopularSearchQueries(prefix: string, since: Date, limit: number): Promise<string[]>;
   
   // Order management
   getOrders(userId: string): Promise<Order[]>;
@@ -75,12 +255,14 @@ export interface IStorage {
   
   // Reviews
   getReviews(productId: string): Promise<Review[]>;
+  getUserReviews(userId: string): Promise<Review[]>;
   createReview(review: InsertReview): Promise<Review>;
   updateReview(id: string, updates: Partial<InsertReview>): Promise<Review | undefined>;
   deleteReview(id: string, userId: string): Promise<boolean>;
   
   // Cart management
   getCartItems(userId: string): Promise<CartItem[]>;
+  getCartItem(id: string): Promise<CartItem | undefined>;
   addToCart(item: InsertCartItem): Promise<CartItem>;
   updateCartItem(id: string, quantity: number): Promise<CartItem | undefined>;
   removeFromCart(id: string): Promise<boolean>;
@@ -89,9 +271,10 @@ export interface IStorage {
   // Wishlist management
   getWishlistItems(userId: string): Promise<WishlistItem[]>;
   addToWishlist(item: InsertWishlistItem): Promise<WishlistItem>;
-  removeFromWishlist(userId: string, productId: string): Promise<boolean>;
+  removeFromWishlist(userId: string, productId: string, variantId?: string | null): Promise<boolean>;
   
   // Transaction management
+  getTransactionsForOrders(orderIds: string[]): Promise<Transaction[]>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   updateTransaction(orderId: string, updates: Partial<InsertTransaction>): Promise<Transaction | undefined>;
   createTransactionEvent(event: InsertTransactionEvent): Promise<TransactionEvent>;
@@ -109,70 +292,717 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    // Unverified numbers are just profile text and don't identify anyone
+    const result = await db.select().from(users).where(and(eq(users.phone, phone), eq(users.phoneVerified, true))).limit(1);
+    return result[0];
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const result = await db.insert(users).values(user).returning();
     return result[0];
   }
 
   async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
-    const result = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    // A different phone number has to be verified again
+    const phoneVerified = updates.phone !== undefined
+      ? { phoneVerified: sql<boolean>`${users.phoneVerified} AND ${users.phone} IS NOT DISTINCT FROM ${updates.phone}` }
+      : {};
+    const result = await db.update(users).set({ ...updates, ...phoneVerified, updatedAt: new Date() }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async recordLogin(id: string): Promise<User | undefined> {
+    const result = await db.update(users).set({ lastLogin: new Date() }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async setUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const result = await db.update(users).set({ role, updatedAt: new Date() }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async markEmailVerified(id: string): Promise<User | undefined> {
+    const result = await db.update(users).set({ emailVerified: true, updatedAt: new Date() }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  async markPhoneVerified(id: string, phone: string): Promise<User | undefined> {
+    const result = await db.update(users).set({ phone, phoneVerified: true, updatedAt: new Date() }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  /**
+   * Erases a user. Orders and their payment records are kept for accounting
+   * but detached from the user and stripped of addresses and UPI ids;
+   * everything else tied to the account is deleted.
+   */
+  async deleteUserAccount(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, id)).limit(1);
+      if (!user) return false;
+
+      const userOrders = await tx.select({ id: orders.id }).from(orders).where(eq(orders.userId, id));
+      const orderIds = userOrders.map((order) => order.id);
+      if (orderIds.length > 0) {
+        await tx.update(transactions).set({ upiId: null }).where(inArray(transactions.orderId, orderIds));
+        await tx.update(orders).set({ userId: null, shippingAddress: null }).where(inArray(orders.id, orderIds));
+      }
+
+      await tx.delete(reviews).where(eq(reviews.userId, id));
+      await tx.delete(cartItems).where(eq(cartItems.userId, id));
+      await tx.delete(wishlistItems).where(eq(wishlistItems.userId, id));
+      if (user.phone) {
+        await tx.delete(phoneOtps).where(eq(phoneOtps.phone, user.phone));
+      }
+      await tx.execute(sql`DELETE FROM "session" WHERE sess->>'userId' = ${id}`);
+      // Addresses, room profiles, product views, verification and reset tokens cascade with the user row
+      await tx.delete(users).where(eq(users.id, id));
+      return true;
+    });
+  }
+
+
+  // Email verification
+  async createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    const result = await db.insert(emailVerificationTokens).values(token).returning();
+    return result[0];
+  }
+
+  // Marks the token used in the same statement that checks it, so it can only be redeemed once
+  async consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const result = await db.update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, tokenHash),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return result[0];
+  }
+
+  // Password reset
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const result = await db.insert(passwordResetTokens).values(token).returning();
+    return result[0];
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const result = await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning();
     return result[0];
   }
 
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Rows in the connect-pg-simple "session" table keep the user id inside the sess json
+  async deleteUserSessions(userId: string): Promise<void> {
+    await db.execute(sql`DELETE FROM "session" WHERE sess->>'userId' = ${userId}`);
+  }
+
+  // Phone OTP sign-in
+  async createPhoneOtp(otp: InsertPhoneOtp): Promise<PhoneOtp> {
+    const result = await db.insert(phoneOtps).values(otp).returning();
+    return result[0];
+  }
+
+  async getLatestPhoneOtp(phone: string): Promise<PhoneOtp | undefined> {
+    const result = await db.select().from(phoneOtps)
+      .where(eq(phoneOtps.phone, phone))
+      .orderBy(desc(phoneOtps.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async countPhoneOtpsSince(phone: string, since: Date): Promise<number> {
+    const result = await db.select({ value: count() }).from(phoneOtps)
+      .where(and(eq(phoneOtps.phone, phone), gte(phoneOtps.createdAt, since)));
+    return result[0]?.value ?? 0;
+  }
+
+  async incrementPhoneOtpAttempts(id: string): Promise<void> {
+    await db.update(phoneOtps).set({ attempts: sql`${phoneOtps.attempts} + 1` }).where(eq(phoneOtps.id, id));
+  }
+
+  async consumePhoneOtp(id: string): Promise<PhoneOtp | undefined> {
+    const result = await db.update(phoneOtps)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(phoneOtps.id, id), isNull(phoneOtps.consumedAt)))
+      .returning();
+    return result[0];
+  }
+
+  // Address book
+  async getAddresses(userId: string): Promise<Address[]> {
+    return await db.select().from(addresses)
+      .where(eq(addresses.userId, userId))
+      .orderBy(desc(addresses.isDefault), desc(addresses.createdAt));
+  }
+
+  async getAddress(id: string): Promise<Address | undefined> {
+    const result = await db.select().from(addresses).where(eq(addresses.id, id)).limit(1);
+    return result[0];
+  }
+
+  /**
+   * A user's first address becomes the default. Marking an address as default
+   * clears the flag on the rest of the user's addresses.
+   */
+  async createAddress(address: InsertAddress): Promise<Address> {
+    return await db.transaction(async (tx) => {
+      const [{ value: existing }] = await tx.select({ value: count() }).from(addresses).where(eq(addresses.userId, address.userId));
+      const isDefault = address.isDefault || existing === 0;
+      if (isDefault) {
+        await tx.update(addresses).set({ isDefault: false }).where(eq(addresses.userId, address.userId));
+      }
+      const result = await tx.insert(addresses).values({ ...address, isDefault }).returning();
+      return result[0];
+    });
+  }
+
+  async updateAddress(id: string, updates: Partial<InsertAddress>): Promise<Address | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(addresses).where(eq(addresses.id, id)).limit(1);
+      if (!current) return undefined;
+
+      if (updates.isDefault) {
+        await tx.update(addresses).set({ isDefault: false }).where(eq(addresses.userId, current.userId));
+      }
+      const result = await tx.update(addresses)
+        .set({ ...updates, userId: current.userId, updatedAt: new Date() })
+        .where(eq(addresses.id, id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  /**
+   * Deleting the default address promotes the most recently added remaining one
+   */
+  async deleteAddress(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(addresses).where(eq(addresses.id, id)).returning();
+      if (!deleted) return false;
+
+      if (deleted.isDefault) {
+        const [next] = await tx.select({ id: addresses.id }).from(addresses)
+          .where(eq(addresses.userId, deleted.userId))
+          .orderBy(desc(addresses.createdAt))
+          .limit(1);
+        if (next) {
+          await tx.update(addresses).set({ isDefault: true }).where(eq(addresses.id, next.id));
+        }
+      }
+      return true;
+    });
+  }
+
+  // Room profiles for fit checks
+  async getRoomProfiles(userId: string): Promise<RoomProfile[]> {
+    return await db.select().from(roomProfiles)
+      .where(eq(roomProfiles.userId, userId))
+      .orderBy(roomProfiles.createdAt);
+  }
+
+  async getRoomProfile(id: string): Promise<RoomProfile | undefined> {
+    const result = await db.select().from(roomProfiles).where(eq(roomProfiles.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createRoomProfile(profile: InsertRoomProfile): Promise<RoomProfile> {
+    const result = await db.insert(roomProfiles).values(profile).returning();
+    return result[0];
+  }
+
+  async updateRoomProfile(id: string, updates: Partial<InsertRoomProfile>): Promise<RoomProfile | undefined> {
+    const result = await db.update(roomProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(roomProfiles.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRoomProfile(id: string): Promise<boolean> {
+    const result = await db.delete(roomProfiles).where(eq(roomProfiles.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Product management
-  async getProducts(filters?: {
-    category?: string;
-    featured?: boolean;
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Product[]> {
+  async getProducts(filters?: ProductFilters): Promise<ProductPage> {
     // Build the query with proper typing
-    const conditions = [];
-    if (filters?.category) {
-      conditions.push(eq(products.category, filters.category));
-    }
-    if (filters?.featured !== undefined) {
-      conditions.push(eq(products.featured, filters.featured));
-    }
-    
-    let query = db.select().from(products);
-    
-    if (conditions.length > 0) {
-      query = query.where(conditions.length === 1 ? conditions[0] : and(...conditions)) as any;
-    }
-    
-    query = query.orderBy(desc(products.createdAt)) as any;
-    
-    if (filters?.limit) {
-      query = query.limit(filters.limit) as any;
-    }
-    
-    if (filters?.offset) {
-      query = query.offset(filters.offset) as any;
+    const conditions = productFilterConditions(filters);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const term = filters?.search?.trim();
+    const tsQuery = term ? toPrefixTsQuery(term) : null;
+    const search = term && tsQuery ? searchFragments(term, tsQuery) : null;
+
+    // Relevance is the default for searches and meaningless without one
+    const sort = filters?.sort ?? (search ? "relevance" : "newest");
+    const orderBy = sort === "relevance"
+      ? (search ? [desc(search.rank), ...productSortOrder("newest")] : productSortOrder("newest"))
+      : productSortOrder(sort);
+
+    const offset = (filters?.cursor ? decodeCursor(filters.cursor) : null) ?? filters?.offset ?? 0;
+
+    const [rows, [{ total }]] = await withSearchSettings(!!term, (runner) => {
+      let query = runner.select({
+        ...productColumns,
+        searchRank: search ? search.rank : sql<number | null>`null`,
+        nameHighlight: search ? search.nameHighlight : sql<string | null>`null`,
+        descriptionHighlight: search ? search.descriptionHighlight : sql<string | null>`null`,
+      }).from(products)
+        .innerJoin(categories, productCategory)
+        .where(where)
+        .orderBy(...orderBy)
+        .$dynamic();
+
+      if (filters?.limit) {
+        query = query.limit(filters.limit);
+      }
+
+      if (offset) {
+        query = query.offset(offset);
+      }
+
+      return Promise.all([
+        query,
+        runner.select({ total: count() }).from(products).innerJoin(categories, productCategory).where(where),
+      ]);
+    });
+
+    const nextOffset = offset + rows.length;
+    return {
+      products: rows.map(({ searchRank, nameHighlight, descriptionHighlight, ...product }) =>
+        search
+          ? { ...product, searchRank: Number(searchRank), highlight: { name: nameHighlight ?? "", description: descriptionHighlight ?? "" } }
+          : product,
+      ),
+      total,
+      nextCursor: filters?.limit && nextOffset < total ? encodeCursor(nextOffset) : null,
+    };
+  }
+
+  async getProductFacets(filters?: ProductFilters): Promise<ProductFacets> {
+    const where = (conditions: ReturnType<typeof productFilterConditions>) =>
+      conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [categoryRows, tagRows, [priceRow]] = await withSearchSettings(!!filters?.search?.trim(), (runner) => {
+      const categoryQuery = runner.select({ value: categories.slug, label: categories.name, count: count() })
+        .from(products)
+        .innerJoin(categories, productCategory)
+        .where(where(productFilterConditions(filters, "category")))
+        .groupBy(categories.id)
+        .orderBy(desc(count()), categories.name);
+
+      const tagWhere = where(productFilterConditions(filters, "tags"));
+      const tagQuery = runner.execute<{ value: string; count: number }>(sql`
+        SELECT t.tag AS value, count(*)::int AS count
+        FROM ${products}
+          JOIN ${categories} ON ${productCategory}
+          CROSS JOIN LATERAL unnest(${products.tags}) AS t(tag)
+        ${tagWhere ? sql`WHERE ${tagWhere}` : sql``}
+        GROUP BY t.tag
+        ORDER BY count DESC, t.tag
+        LIMIT ${MAX_TAG_FACETS}
+      `);
+
+      const bucketCounts = Object.fromEntries(PRICE_BUCKETS.map((bucket, i) => [
+        `b${i}`,
+        sql<number>`count(*) FILTER (WHERE ${products.price} >= ${bucket.min}${
+          bucket.max === null ? sql`` : sql` AND ${products.price} < ${bucket.max}`
+        })`.mapWith(Number),
+      ]));
+      const priceQuery = runner.select(bucketCounts)
+        .from(products)
+        .innerJoin(categories, productCategory)
+        .where(where(productFilterConditions(filters, "price")));
+
+      return Promise.all([categoryQuery, tagQuery, priceQuery]);
+    });
+
+    return {
+      categories: categoryRows,
+      tags: Array.from(tagRows, (row) => ({ value: row.value, count: Number(row.count) })),
+      priceRanges: PRICE_BUCKETS.map((bucket, i) => ({ ...bucket, count: Number(priceRow?.[`b${i}`] ?? 0) })),
+    };
+  }
+
+  async ensureSearchIndexes(): Promise<void> {
+    for (const statement of SEARCH_SETUP_STATEMENTS) {
+      await db.execute(statement);
     }
-    
-    return await query;
+  }
+
+  /**
+   * Moves products from the legacy free-text category column onto the
+   * category tree. Returns false when there is nothing left to migrate.
+   */
+  async migrateCategoryTree(): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const legacy = await tx.execute(sql`
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'products' AND column_name = 'category'
+      `);
+      if (legacy.length === 0) return false;
+      for (const statement of CATEGORY_TREE_MIGRATION) {
+        await tx.execute(statement);
+      }
+      return true;
+    });
+  }
+
+  // Gives every product a slug; false when products.slug already exists
+  async migrateProductSlugs(): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.execute(sql`
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = 'products' AND column_name = 'slug'
+      `);
+      if (existing.length > 0) return false;
+      for (const statement of PRODUCT_SLUG_MIGRATION) {
+        await tx.execute(statement);
+      }
+      return true;
+    });
+  }
+
+  async getProductSuggestions(term: string, limit: number): Promise<SearchSuggestions["products"]> {
+    const tsQuery = toPrefixTsQuery(term);
+    if (!tsQuery) return [];
+
+    const search = searchFragments(term, tsQuery);
+    return await withSearchSettings(true, (runner) => runner.select({
+      id: products.id,
+      name: products.name,
+      category: categories.name,
+      images: products.images,
+    }).from(products)
+      .innerJoin(categories, productCategory)
+      .where(search.matches)
+      .orderBy(desc(search.rank))
+      .limit(limit));
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
-    const result = await db.select().from(products).where(eq(products.id, id)).limit(1);
+    const result = await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(eq(products.id, id))
+      .limit(1);
     return result[0];
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const result = await db.insert(products).values(product).returning();
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    const result = await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(eq(products.slug, slug))
+      .limit(1);
     return result[0];
   }
 
+  // Just the slugs and modification times, for sitemap.xml
+  async getSitemapEntries(): Promise<SitemapEntries> {
+    const [productEntries, categoryEntries] = await Promise.all([
+      db.select({ slug: products.slug, updatedAt: products.updatedAt }).from(products).orderBy(products.slug),
+      db.select({ slug: categories.slug, updatedAt: categories.createdAt }).from(categories).orderBy(categories.position, categories.name),
+    ]);
+    return { products: productEntries, categories: categoryEntries };
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [created] = await db.insert(products).values(product).returning({ id: products.id });
+    return (await this.getProduct(created.id))!;
+  }
+
   async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
-    const result = await db.update(products).set(updates).where(eq(products.id, id)).returning();
+    const result = await db.update(products)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning({ id: products.id });
+    return result[0] ? await this.getProduct(id) : undefined;
+  }
+
+  // SKU -> slug for the SKUs that already exist
+  async getProductSlugsBySku(skus: string[]): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    for (let i = 0; i < skus.length; i += UPSERT_BATCH_SIZE) {
+      const rows = await db.select({ sku: products.sku, slug: products.slug }).from(products)
+        .where(inArray(products.sku, skus.slice(i, i + UPSERT_BATCH_SIZE)));
+      rows.forEach((row) => found.set(row.sku!, row.slug));
+    }
+    return found;
+  }
+
+  // Every slug that is one of the prefixes or extends it, e.g. "oak-table" and "oak-table-2" for "oak-table"
+  async getProductSlugsStartingWith(prefixes: string[]): Promise<Set<string>> {
+    const found = new Set<string>();
+    const patterns = Array.from(new Set(prefixes)).map((prefix) => `${escapeLike(prefix)}%`);
+    for (let i = 0; i < patterns.length; i += UPSERT_BATCH_SIZE) {
+      const batch = patterns.slice(i, i + UPSERT_BATCH_SIZE).map((pattern) => sql`${pattern}`);
+      const rows = await db.select({ slug: products.slug }).from(products)
+        .where(sql`${products.slug} LIKE ANY(ARRAY[${sql.join(batch, sql`, `)}])`);
+      rows.forEach((row) => found.add(row.slug));
+    }
+    return found;
+  }
+
+  // Inserts new SKUs and overwrites the imported columns of existing ones; slugs, ratings and reviews are untouched
+  async upsertProductsBySku(rows: InsertProduct[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+        await tx.insert(products)
+          .values(rows.slice(i, i + UPSERT_BATCH_SIZE))
+          .onConflictDoUpdate({
+            target: products.sku,
+            set: {
+              name: sql`excluded.name`,
+              description: sql`excluded.description`,
+              price: sql`excluded.price`,
+              originalPrice: sql`excluded.original_price`,
+              categoryId: sql`excluded.category_id`,
+              images: sql`excluded.images`,
+              stock: sql`excluded.stock`,
+              featured: sql`excluded.featured`,
+              tags: sql`excluded.tags`,
+              specs: sql`excluded.specs`,
+              updatedAt: new Date(),
+            },
+          });
+      }
+    });
+  }
+
+  // Keyset pages over the whole catalog in id order, for exports
+  async getProductsAfter(afterId: string | null, limit: number): Promise<Product[]> {
+    return await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(afterId ? gt(products.id, afterId) : undefined)
+      .orderBy(products.id)
+      .limit(limit);
+  }
+
+  // Uploaded images
+  async createImageAsset(asset: InsertImageAsset): Promise<ImageAsset> {
+    const result = await db.insert(imageAssets).values(asset).returning();
+    return result[0];
+  }
+
+  // Recommendations
+  async getRecommendationSignals(minSharedOrders: number): Promise<RecommendationSignals> {
+    const otherItems = alias(orderItems, "other_items");
+    const notCancelled = ne(orders.status, "cancelled");
+    const orderCount = sql<number>`count(DISTINCT ${orderItems.orderId})::int`;
+    const [productRows, orderCounts, coPurchases] = await Promise.all([
+      db.select({ id: products.id, categoryId: products.categoryId, tags: products.tags, price: products.price }).from(products),
+      db.select({ productId: orderItems.productId, orders: orderCount }).from(orderItems)
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .where(and(notCancelled, isNotNull(orderItems.productId)))
+        .groupBy(orderItems.productId),
+      db.select({ productId: orderItems.productId, otherProductId: otherItems.productId, orders: orderCount }).from(orderItems)
+        .innerJoin(otherItems, and(eq(otherItems.orderId, orderItems.orderId), ne(otherItems.productId, orderItems.productId)))
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .where(notCancelled)
+        .groupBy(orderItems.productId, otherItems.productId)
+        .having(gte(orderCount, minSharedOrders)),
+    ]);
+    return {
+      products: productRows,
+      orderCounts: orderCounts as RecommendationSignals["orderCounts"],
+      coPurchases: coPurchases as RecommendationSignals["coPurchases"],
+    };
+  }
+
+  // Swaps the whole set at once so readers never see a half-built one
+  async replaceProductRecommendations(rows: InsertProductRecommendation[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(productRecommendations);
+      for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+        await tx.insert(productRecommendations).values(rows.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+    });
+  }
+
+  async getRecommendedProducts(productId: string, kind: RecommendationKind, limit: number): Promise<Product[]> {
+    return await db.select(productColumns).from(productRecommendations)
+      .innerJoin(products, eq(productRecommendations.recommendedProductId, products.id))
+      .innerJoin(categories, productCategory)
+      .where(and(
+        eq(productRecommendations.productId, productId),
+        eq(productRecommendations.kind, kind),
+        gt(products.stock, 0),
+      ))
+      .orderBy(desc(productRecommendations.score))
+      .limit(limit);
+  }
+
+  // In-stock products from the same category, closest in price first
+  async getSimilarlyPricedProducts(product: Product, limit: number): Promise<Product[]> {
+    return await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(and(eq(products.categoryId, product.categoryId), ne(products.id, product.id), gt(products.stock, 0)))
+      .orderBy(sql`abs(${products.price} - ${product.price}::numeric)`)
+      .limit(limit);
+  }
+
+  // Browsing history and personalization
+  async recordProductView(userId: string, productId: string): Promise<void> {
+    await db.insert(productViews)
+      .values({ userId, productId })
+      .onConflictDoUpdate({
+        target: [productViews.userId, productViews.productId],
+        set: { viewCount: sql`${productViews.viewCount} + 1`, viewedAt: new Date() },
+      });
+  }
+
+  // Keeps the later of the two view times, so merging older guest history never reorders the account's
+  async mergeProductViews(userId: string, views: { productId: string; viewedAt: Date }[]): Promise<void> {
+    if (views.length === 0) return;
+    await db.insert(productViews)
+      .values(views.map((view) => ({ userId, productId: view.productId, viewedAt: view.viewedAt })))
+      .onConflictDoUpdate({
+        target: [productViews.userId, productViews.productId],
+        set: {
+          viewCount: sql`${productViews.viewCount} + excluded.view_count`,
+          viewedAt: sql`greatest(${productViews.viewedAt}, excluded.viewed_at)`,
+        },
+      });
+  }
+
+  async getViewHistory(userId: string, limit: number): Promise<ViewedProduct[]> {
+    const rows = await db.select({ ...productColumns, viewedAt: productViews.viewedAt }).from(productViews)
+      .innerJoin(products, eq(productViews.productId, products.id))
+      .innerJoin(categories, productCategory)
+      .where(eq(productViews.userId, userId))
+      .orderBy(desc(productViews.viewedAt))
+      .limit(limit);
+    return rows.map(({ viewedAt, ...product }) => ({ product, viewedAt }));
+  }
+
+  async deleteProductView(userId: string, productId: string): Promise<boolean> {
+    const result = await db.delete(productViews)
+      .where(and(eq(productViews.userId, userId), eq(productViews.productId, productId)))
+      .returning({ id: productViews.id });
+    return result.length > 0;
+  }
+
+  async clearProductViews(userId: string): Promise<void> {
+    await db.delete(productViews).where(eq(productViews.userId, userId));
+  }
+
+  async setHistoryPaused(userId: string, paused: boolean): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ historyPaused: paused, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
     return result[0];
   }
 
+  async getRecentlyViewedProducts(userId: string, limit: number): Promise<Product[]> {
+    return await db.select(productColumns).from(productViews)
+      .innerJoin(products, eq(productViews.productId, products.id))
+      .innerJoin(categories, productCategory)
+      .where(eq(productViews.userId, userId))
+      .orderBy(desc(productViews.viewedAt))
+      .limit(limit);
+  }
+
+  // In no particular order
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    return await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(inArray(products.id, ids));
+  }
+
+  // In-stock products sharing the most of the profile's tags, then in its categories, best rated first
+  async getStylePicks(profile: StyleProfile, excludeIds: string[], limit: number): Promise<Product[]> {
+    const tags = sql`ARRAY[${sql.join(profile.tags.map((tag) => sql`${tag}`), sql`, `)}]::text[]`;
+    const matches = [
+      profile.tags.length > 0 ? sql`${products.tags} && ${tags}` : undefined,
+      profile.categoryIds.length > 0 ? inArray(products.categoryId, profile.categoryIds) : undefined,
+    ].filter((condition) => condition !== undefined);
+    if (matches.length === 0) return [];
+
+    const sharedTags = profile.tags.length > 0
+      ? sql`cardinality(ARRAY(SELECT unnest(${products.tags}) INTERSECT SELECT unnest(${tags})))`
+      : sql`0`;
+    return await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .where(and(
+        sql`(${sql.join(matches, sql` OR `)})`,
+        gt(products.stock, 0),
+        excludeIds.length > 0 ? notInArray(products.id, excludeIds) : undefined,
+      ))
+      .orderBy(desc(sharedTags), desc(sql`coalesce(${products.rating}, 0)`), desc(sql`coalesce(${products.reviewCount}, 0)`))
+      .limit(limit);
+  }
+
+  // In-stock products by units sold since the given date, with reviews and ratings breaking ties (and standing in before any sales)
+  async getBestsellers(since: Date, limit: number): Promise<Product[]> {
+    const sold = db.select({
+      productId: orderItems.productId,
+      units: sql<number>`sum(${orderItems.quantity})::int`.as("units"),
+    }).from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(ne(orders.status, "cancelled"), gte(orders.createdAt, since)))
+      .groupBy(orderItems.productId)
+      .as("sold");
+    return await db.select(productColumns).from(products)
+      .innerJoin(categories, productCategory)
+      .leftJoin(sold, eq(sold.productId, products.id))
+      .where(gt(products.stock, 0))
+      .orderBy(
+        desc(sql`coalesce(${sold.units}, 0)`),
+        desc(sql`coalesce(${products.reviewCount}, 0)`),
+        desc(sql`coalesce(${products.rating}, 0)`),
+      )
+      .limit(limit);
+  }
+
+  // Product variants
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return await db.select().from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(productVariants.position, productVariants.createdAt);
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const result = await db.select().from(productVariants).where(eq(productVariants.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createProductVariant(variant: InsertProductVariant): Promise<ProductVariant> {
+    const result = await db.insert(productVariants).values(variant).returning();
+    return result[0];
+  }
+
+  async updateProductVariant(id: string, updates: Partial<InsertProductVariant>): Promise<ProductVariant | undefined> {
+    const result = await db.update(productVariants)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(productVariants.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteProductVariant(id: string): Promise<boolean> {
+    const result = await db.delete(productVariants).where(eq(productVariants.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Category management
   async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories).orderBy(categories.name);
+    return await db.select().from(categories).orderBy(categories.position, categories.name);
   }
 
   async getCategory(id: string): Promise<Category | undefined> {
@@ -180,11 +1010,30 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const result = await db.select().from(categories).where(eq(categories.slug, slug)).limit(1);
+    return result[0];
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const result = await db.insert(categories).values(category).returning();
     return result[0];
   }
 
+  async updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined> {
+    const result = await db.update(categories).set(updates).where(eq(categories.id, id)).returning();
+    return result[0];
+  }
+
+  async searchCategoryNames(term: string, limit: number): Promise<string[]> {
+    const result = await db.select({ name: categories.name }).from(categories)
+      .where(ilike(categories.name, `%${escapeLike(term)}%`))
+      .orderBy(categories.name)
+      .limit(limit);
+    return result.map((row) => row.name);
+  }
+
+
   // Order management
   async getOrders(userId: string): Promise<Order[]> {
     return await db.select().from(orders).where(eq(orders.userId, userId)).orderBy(desc(orders.createdAt));
@@ -220,6 +1069,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(reviews).where(eq(reviews.productId, productId)).orderBy(desc(reviews.createdAt));
   }
 
+  async getUserReviews(userId: string): Promise<Review[]> {
+    return await db.select().from(reviews).where(eq(reviews.userId, userId)).orderBy(desc(reviews.createdAt));
+  }
+
   async createReview(review: InsertReview): Promise<Review> {
     const result = await db.insert(reviews).values(review).returning();
     return result[0];
@@ -240,10 +1093,19 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(cartItems).where(eq(cartItems.userId, userId));
   }
 
+  async getCartItem(id: string): Promise<CartItem | undefined> {
+    const result = await db.select().from(cartItems).where(eq(cartItems.id, id)).limit(1);
+    return result[0];
+  }
+
   async addToCart(item: InsertCartItem): Promise<CartItem> {
-    // Try to update existing item first
+    // Try to update existing item first; each variant of a product is its own line
     const existing = await db.select().from(cartItems)
-      .where(and(eq(cartItems.userId, item.userId!), eq(cartItems.productId, item.productId!)))
+      .where(and(
+        eq(cartItems.userId, item.userId!),
+        eq(cartItems.productId, item.productId!),
+        item.variantId ? eq(cartItems.variantId, item.variantId) : isNull(cartItems.variantId),
+      ))
       .limit(1);
     
     if (existing.length > 0) {
@@ -283,14 +1145,48 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async removeFromWishlist(userId: string, productId: string): Promise<boolean> {
+  async removeFromWishlist(userId: string, productId: string, variantId?: string | null): Promise<boolean> {
+    // Without a variant every saved entry for the product is removed
     const result = await db.delete(wishlistItems)
-      .where(and(eq(wishlistItems.userId, userId), eq(wishlistItems.productId, productId)))
+      .where(and(
+        eq(wishlistItems.userId, userId),
+        eq(wishlistItems.productId, productId),
+        variantId ? eq(wishlistItems.variantId, variantId) : undefined,
+      ))
       .returning();
     return result.length > 0;
   }
 
+  // Search query log
+  async logSearchQuery(entry: InsertSearchQuery): Promise<void> {
+    await db.insert(searchQueries).values(entry);
+  }
+
+  /**
+   * Most searched queries since the given date that start with the prefix.
+   * Queries that found nothing are left out so dead ends don't trend.
+   */
+  async getPopularSearchQueries(prefix: string, since: Date, limit: number): Promise<string[]> {
+    const result = await db.select({ query: searchQueries.query }).from(searchQueries)
+      .where(and(
+        gte(searchQueries.createdAt, since),
+        gt(searchQueries.resultCount, 0),
+        ilike(searchQueries.query, `${escapeLike(prefix)}%`),
+      ))
+      .groupBy(searchQueries.query)
+      .orderBy(desc(count()))
+      .limit(limit);
+    return result.map((row) => row.query);
+  }
+
   // Transaction management
+  async getTransactionsForOrders(orderIds: string[]): Promise<Transaction[]> {
+    if (orderIds.length === 0) return [];
+    return await db.select().from(transactions)
+      .where(inArray(transactions.orderId, orderIds))
+      .orderBy(desc(transactions.createdAt));
+  }
+
   async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
     const result = await db.insert(transactions).values(transaction).returning();
     return result[0];
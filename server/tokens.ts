@@ -0,0 +1,14 @@
+import { randomBytes, createHash } from "crypto";
+
+/**
+ * Single-use tokens sent to users by email or SMS. Only the SHA-256 hash is
+ * ever stored, so a leaked database row cannot be replayed.
+ */
+export function generateToken(bytes = 32): { token: string; tokenHash: string } {
+  const token = randomBytes(bytes).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -1,49 +1,226 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, uuid, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, decimal, doublePrecision, timestamp, uuid, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Roles, from least to most privileged
+export const userRoles = ["customer", "staff", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
 // Users table for authentication
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
-  email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  // Phone-only accounts created through OTP sign-in have no email or password
+  email: text("email").unique(),
+  password: text("password"),
   fullName: text("full_name"),
   avatarUrl: text("avatar_url"),
   phone: text("phone"),
+  phoneVerified: boolean("phone_verified").default(false),
   address: jsonb("address"),
   emailVerified: boolean("email_verified").default(false),
+  role: text("role").$type<UserRole>().notNull().default("customer"),
+  // Stops product views being saved to product_views
+  historyPaused: boolean("history_paused").notNull().default(false),
   lastLogin: timestamp("last_login"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Anyone can type a number into their profile; only one account can have it verified
+  uniqueIndex("users_verified_phone_idx").on(table.phone).where(sql`${table.phoneVerified} = true`),
+]);
+
+// Email verification tokens; only the SHA-256 hash of the emailed token is stored
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Password reset tokens; single use, hashed like email verification tokens
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time sign-in codes sent by SMS, hashed together with the phone number
+export const phoneOtps = pgTable("phone_otps", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  phone: text("phone").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Typed product specifications. Dimensions are in centimetres and weight in kilograms.
+export const productSpecsSchema = z.object({
+  widthCm: z.number().positive(),
+  depthCm: z.number().positive(),
+  heightCm: z.number().positive(),
+  weightKg: z.number().positive(),
+  material: z.string().min(1),
+  seatingCapacity: z.number().int().positive(),
+  assemblyRequired: z.boolean(),
+  warrantyMonths: z.number().int().min(0),
+  countryOfOrigin: z.string().min(1),
+}).partial().strict();
+
+export type ProductSpecs = z.infer<typeof productSpecsSchema>;
+export type ProductSpecKey = keyof ProductSpecs;
+export const productSpecKeys = Object.keys(productSpecsSchema.shape) as ProductSpecKey[];
+
+// Which specs a category shows, in order, and which ones products in it must provide
+export const specTemplateFieldSchema = z.object({
+  key: z.enum(productSpecKeys as [ProductSpecKey, ...ProductSpecKey[]]),
+  label: z.string().min(1),
+  unit: z.string().optional(),
+  required: z.boolean().optional(),
 });
 
+export type SpecTemplateField = z.infer<typeof specTemplateFieldSchema>;
+
+// Used for categories that haven't been given their own template
+export const DEFAULT_SPEC_TEMPLATE: SpecTemplateField[] = [
+  { key: "widthCm", label: "Width", unit: "cm" },
+  { key: "depthCm", label: "Depth", unit: "cm" },
+  { key: "heightCm", label: "Height", unit: "cm" },
+  { key: "weightKg", label: "Weight", unit: "kg" },
+  { key: "material", label: "Material" },
+  { key: "seatingCapacity", label: "Seating capacity" },
+  { key: "assemblyRequired", label: "Assembly required" },
+  { key: "warrantyMonths", label: "Warranty", unit: "months" },
+  { key: "countryOfOrigin", label: "Country of origin" },
+];
+
 // Products table
 export const products = pgTable("products", {
   id: uuid("id").primaryKey().defaultRandom(),
+  // Catalog team's identifier; bulk imports upsert on it
+  sku: text("sku").unique(),
   name: text("name").notNull(),
+  // Public URL segment, /products/<slug>
+  slug: text("slug").notNull().unique(),
   description: text("description"),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   originalPrice: decimal("original_price", { precision: 10, scale: 2 }),
-  category: text("category").notNull(),
+  categoryId: uuid("category_id").references(() => categories.id, { onDelete: "restrict" }).notNull(),
   images: text("images").array().default([]),
   stock: integer("stock").default(0),
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0"),
   reviewCount: integer("review_count").default(0),
   featured: boolean("featured").default(false),
   tags: text("tags").array().default([]),
+  specs: jsonb("specs").$type<ProductSpecs>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("products_category_idx").on(table.categoryId),
+]);
+
+// Purchasable variants of a product, e.g. { size: "3 Seater", colour: "Teal", fabric: "Velvet" }.
+// Each has its own SKU, price, stock and images; option names are free-form per product.
+export const productVariants = pgTable("product_variants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  sku: text("sku").notNull().unique(),
+  options: jsonb("options").$type<Record<string, string>>().notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  originalPrice: decimal("original_price", { precision: 10, scale: 2 }),
+  stock: integer("stock").notNull().default(0),
+  images: text("images").array().default([]),
+  position: integer("position").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("product_variants_product_idx").on(table.productId),
+]);
+
+export const imageFormats = ["avif", "webp"] as const;
+export type ImageFormat = typeof imageFormats[number];
+
+export interface ImageRendition {
+  format: ImageFormat;
+  width: number;
+  url: string;
+}
+
+// Uploaded images and their resized renditions. `url` is the largest WebP
+// rendition and is what products.images and product_variants.images store.
+export const imageAssets = pgTable("image_assets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  url: text("url").notNull().unique(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  // Tiny blurred WebP as a data URI, shown while the real image loads
+  placeholder: text("placeholder").notNull(),
+  renditions: jsonb("renditions").$type<ImageRendition[]>().notNull(),
+  uploadedBy: uuid("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Categories table
+// Categories form a tree (Living Room > Sofas > Sectionals); top-level categories have no parent
 export const categories = pgTable("categories", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: text("name").notNull().unique(),
+  slug: text("slug").notNull().unique(),
+  parentId: uuid("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "restrict" }),
+  // Order among siblings in menus
+  position: integer("position").notNull().default(0),
   description: text("description"),
   image: text("image"),
+  specTemplate: jsonb("spec_template").$type<SpecTemplateField[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("categories_parent_idx").on(table.parentId),
+]);
+
+// Saved shipping addresses (address book)
+export const addresses = pgTable("addresses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  label: text("label").notNull().default("Home"),
+  fullName: text("full_name").notNull(),
+  phone: text("phone").notNull(),
+  line1: text("line1").notNull(),
+  line2: text("line2"),
+  landmark: text("landmark"),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  pincode: text("pincode").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Saved room and access measurements (cm) for the "Will it fit?" checker
+export const roomProfiles = pgTable("room_profiles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  roomWidthCm: integer("room_width_cm"),
+  roomLengthCm: integer("room_length_cm"),
+  ceilingHeightCm: integer("ceiling_height_cm"),
+  doorWidthCm: integer("door_width_cm"),
+  doorHeightCm: integer("door_height_cm"),
+  // Narrowest stair or corridor on the way in
+  passageWidthCm: integer("passage_width_cm"),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Order lifecycle states
+export const orderStatuses = ["pending", "confirmed", "processing", "shipped", "delivered", "cancelled"] as const;
+export type OrderStatus = typeof orderStatuses[number];
+
 // Orders table
 export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -61,6 +238,9 @@ export const orderItems = pgTable("order_items", {
   id: uuid("id").primaryKey().defaultRandom(),
   orderId: uuid("order_id").references(() => orders.id),
   productId: uuid("product_id").references(() => products.id),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  // Snapshot of the variant's options so order history survives variant edits
+  variantOptions: jsonb("variant_options").$type<Record<string, string>>(),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
 });
@@ -80,6 +260,7 @@ export const cartItems = pgTable("cart_items", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").references(() => users.id),
   productId: uuid("product_id").references(() => products.id),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "cascade" }),
   quantity: integer("quantity").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -89,6 +270,7 @@ export const wishlistItems = pgTable("wishlist_items", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").references(() => users.id),
   productId: uuid("product_id").references(() => products.id),
+  variantId: uuid("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -105,6 +287,45 @@ export const transactions = pgTable("transactions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Products a signed-in shopper has opened, one row per product. Shown as their
+// browsing history and used for the personalized home page.
+export const productViews = pgTable("product_views", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  viewCount: integer("view_count").notNull().default(1),
+  viewedAt: timestamp("viewed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("product_views_user_product_idx").on(table.userId, table.productId),
+  index("product_views_user_viewed_idx").on(table.userId, table.viewedAt),
+]);
+
+export const recommendationKinds = ["related", "bought_together"] as const;
+export type RecommendationKind = typeof recommendationKinds[number];
+
+// Precomputed recommendations, rebuilt nightly by server/recommendations.ts.
+// "related" comes from category, tag and price similarity; "bought_together" from shared orders.
+export const productRecommendations = pgTable("product_recommendations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  recommendedProductId: uuid("recommended_product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  kind: text("kind").$type<RecommendationKind>().notNull(),
+  score: doublePrecision("score").notNull(),
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+}, (table) => [
+  index("product_recommendations_product_kind_idx").on(table.productId, table.kind),
+]);
+
+// Search query log backing trending searches. Deliberately not linked to users.
+export const searchQueries = pgTable("search_queries", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  query: text("query").notNull(),
+  resultCount: integer("result_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("search_queries_query_created_idx").on(table.query, table.createdAt),
+]);
+
 // Transaction events table for tracking payment events
 export const transactionEvents = pgTable("transaction_events", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -117,18 +338,104 @@ export const transactionEvents = pgTable("transaction_events", {
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  role: true,
+  historyPaused: true,
+  emailVerified: true,
+  phoneVerified: true,
   createdAt: true,
   updatedAt: true,
   lastLogin: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+// Email sign-up still needs both credentials even though the columns are nullable
+export const registerUserSchema = insertUserSchema.extend({
+  email: z.string().email(),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const insertEmailVerificationTokenSchema = createInsertSchema(emailVerificationTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertPhoneOtpSchema = createInsertSchema(phoneOtps).omit({
+  id: true,
+  attempts: true,
+  consumedAt: true,
+  createdAt: true,
+});
+
+export const insertAddressSchema = createInsertSchema(addresses, {
+  fullName: (schema) => schema.trim().min(2, "Full name is required"),
+  phone: (schema) => schema.regex(/^[6-9]\d{9}$/, "Enter a valid 10-digit mobile number"),
+  line1: (schema) => schema.trim().min(3, "Address is required"),
+  city: (schema) => schema.trim().min(2, "City is required"),
+  state: (schema) => schema.trim().min(2, "State is required"),
+  pincode: (schema) => schema.regex(/^[1-9]\d{5}$/, "Enter a valid 6-digit PIN code"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const roomDimension = (schema: z.ZodNumber) => schema.int().positive().max(10000);
+
+export const insertRoomProfileSchema = createInsertSchema(roomProfiles, {
+  name: (schema) => schema.trim().min(1, "Give the room a name"),
+  roomWidthCm: roomDimension,
+  roomLengthCm: roomDimension,
+  ceilingHeightCm: roomDimension,
+  doorWidthCm: roomDimension,
+  doorHeightCm: roomDimension,
+  passageWidthCm: roomDimension,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const slugSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single hyphens");
+
+export const insertProductSchema = createInsertSchema(products, {
+  slug: slugSchema,
+  specs: productSpecsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  options: z.record(z.string().min(1)),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
+export const insertImageAssetSchema = createInsertSchema(imageAssets, {
+  renditions: z.array(z.object({
+    format: z.enum(imageFormats),
+    width: z.number().int().positive(),
+    url: z.string(),
+  })),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.trim().min(1, "Category name is required"),
+  slug: slugSchema,
+  specTemplate: z.array(specTemplateFieldSchema).nullable(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -162,6 +469,26 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   createdAt: true,
 });
 
+export const insertSearchQuerySchema = createInsertSchema(searchQueries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductRecommendationSchema = createInsertSchema(productRecommendations, {
+  kind: z.enum(recommendationKinds),
+}).omit({
+  id: true,
+  computedAt: true,
+});
+
+// Guest history the browser kept before sign-in, merged into the account's
+export const mergeHistorySchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    viewedAt: z.coerce.date(),
+  })).max(50),
+});
+
 export const insertTransactionEventSchema = createInsertSchema(transactionEvents).omit({
   id: true,
   timestamp: true,
@@ -171,11 +498,83 @@ export const insertTransactionEventSchema = createInsertSchema(transactionEvents
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertEmailVerificationToken = z.infer<typeof insertEmailVerificationTokenSchema>;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertPhoneOtp = z.infer<typeof insertPhoneOtpSchema>;
+export type PhoneOtp = typeof phoneOtps.$inferSelect;
+
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+export type Address = typeof addresses.$inferSelect;
+
+export type InsertRoomProfile = z.infer<typeof insertRoomProfileSchema>;
+export type RoomProfile = typeof roomProfiles.$inferSelect;
+
 export type InsertProduct = z.infer<typeof insertProductSchema>;
-export type Product = typeof products.$inferSelect;
+export type ProductRow = typeof products.$inferSelect;
+// Products as the API returns them, with their category's name and slug joined in
+export type Product = ProductRow & {
+  category: string;
+  categorySlug: string;
+  // Renditions for those of its (and its variants') images that were uploaded rather than hot-linked
+  imageAssets: ResponsiveImage[];
+};
+
+export type ImageAsset = typeof imageAssets.$inferSelect;
+export type InsertImageAsset = z.infer<typeof insertImageAssetSchema>;
+export type ResponsiveImage = Pick<ImageAsset, "url" | "width" | "height" | "placeholder" | "renditions">;
+
+// Sort orders for product listings; "relevance" only applies to searches
+export const productSortOptions = ["relevance", "newest", "price_asc", "price_desc", "rating", "popularity", "discount"] as const;
+export type ProductSort = typeof productSortOptions[number];
+
+// Search matches come back with HTML-escaped snippets where matched terms are wrapped in <mark>
+export interface ProductHighlight {
+  name: string;
+  description: string;
+}
+
+export type ProductListItem = Product & {
+  searchRank?: number;
+  highlight?: ProductHighlight;
+};
+
+export interface FacetCount {
+  value: string;
+  // Display name when it differs from the value, e.g. a category's name for its slug
+  label?: string;
+  count: number;
+}
+
+export interface PriceRangeFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  priceRanges: PriceRangeFacet[];
+}
+
+export interface ProductPage {
+  products: ProductListItem[];
+  total: number;
+  // Opaque; pass back as `cursor` to get the next page. Null on the last page.
+  nextCursor: string | null;
+}
+
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
 
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
+export type CategoryCrumb = Pick<Category, "id" | "name" | "slug">;
+export type CategoryNode = Category & { children: CategoryNode[] };
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
@@ -197,3 +596,29 @@ export type Transaction = typeof transactions.$inferSelect;
 
 export type InsertTransactionEvent = z.infer<typeof insertTransactionEventSchema>;
 export type TransactionEvent = typeof transactionEvents.$inferSelect;
+
+export type ProductView = typeof productViews.$inferSelect;
+// A browsing history entry; viewedAt is the latest view
+export type ViewedProduct = { product: Product } & Pick<ProductView, "viewedAt">;
+
+export type InsertProductRecommendation = z.infer<typeof insertProductRecommendationSchema>;
+export type ProductRecommendation = typeof productRecommendations.$inferSelect;
+
+export type InsertSearchQuery = z.infer<typeof insertSearchQuerySchema>;
+export type SearchQuery = typeof searchQueries.$inferSelect;
+
+export const homeRailKinds = ["because_you_viewed", "recently_viewed", "style_picks", "bestsellers"] as const;
+export type HomeRailKind = typeof homeRailKinds[number];
+
+// A titled row of products on the home page, chosen for the shopper
+export interface HomeRail {
+  kind: HomeRailKind;
+  title: string;
+  products: Product[];
+}
+
+export interface SearchSuggestions {
+  queries: string[];
+  products: Pick<Product, "id" | "name" | "category" | "images">[];
+  categories: string[];
+}